@@ -0,0 +1,121 @@
+import { createClient } from '@supabase/supabase-js'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Cancellation of in-flight gateway requests. The cancel call can land on a
+// different instance than the generation, so besides aborting local requests
+// directly it records the cancellation in ai_request_cancellations, which each
+// instance polls with one query for all of its running requests.
+// Only the request's owner (the userId/deviceId it was sent with) may cancel it,
+// and a request whose user was verified by an access token only by that user's token.
+
+const CANCELLATION_POLL_INTERVAL_MS = 3000
+
+// The ids a request was sent with; a cancellation has to present the same ones
+export interface RequestOwner {
+  userId?: string
+  deviceId?: string
+  verified?: boolean // userId comes from an access token rather than the request body
+}
+
+export interface ActiveRequest {
+  requestId: string
+  signal: AbortSignal // Pass to the upstream fetch
+  release(): void // Call once the request has finished
+}
+
+interface RunningRequest {
+  controller: AbortController
+  owner: RequestOwner
+}
+
+const activeRequests = new Map<string, RunningRequest>()
+let poll: ReturnType<typeof setInterval> | undefined
+
+function isOwner(owner: RequestOwner, caller: RequestOwner): boolean {
+  if (owner.verified && !caller.verified) {
+    return false
+  }
+  return (owner.userId || undefined) === (caller.userId || undefined) &&
+    (owner.deviceId || undefined) === (caller.deviceId || undefined)
+}
+
+async function pollCancellations() {
+  const requestIds = [...activeRequests.keys()]
+  if (requestIds.length === 0) return
+  try {
+    const { data } = await supabase
+      .from('ai_request_cancellations')
+      .select('request_id, user_id, device_id, verified')
+      .in('request_id', requestIds)
+    for (const row of data || []) {
+      const running = activeRequests.get(row.request_id)
+      if (!running || running.controller.signal.aborted) continue
+      if (!isOwner(running.owner, { userId: row.user_id, deviceId: row.device_id, verified: row.verified })) {
+        console.warn(`🚫 Ignoring cancellation of ${row.request_id}: not sent by the request's owner`)
+        continue
+      }
+      console.log(`🛑 Cancelling ${row.request_id} (requested on another instance)`)
+      running.controller.abort()
+    }
+  } catch (error) {
+    console.error('Failed to check request cancellations:', error)
+  }
+}
+
+export function registerActiveRequest(requestId: string, owner: RequestOwner): ActiveRequest {
+  const controller = new AbortController()
+  activeRequests.set(requestId, { controller, owner })
+
+  if (!poll) {
+    poll = setInterval(() => void pollCancellations(), CANCELLATION_POLL_INTERVAL_MS)
+    poll.unref?.()
+  }
+
+  return {
+    requestId,
+    signal: controller.signal,
+    release: () => {
+      activeRequests.delete(requestId)
+      if (activeRequests.size === 0 && poll) {
+        clearInterval(poll)
+        poll = undefined
+      }
+    }
+  }
+}
+
+// Returns 'cancelled' when the request was running here and has been aborted,
+// 'forbidden' when it is running here for someone else, and 'requested' when it
+// was handed to whichever instance is running it (which checks the owner itself)
+export async function cancelRequest(
+  requestId: string,
+  caller: RequestOwner
+): Promise<'cancelled' | 'forbidden' | 'requested'> {
+  const local = activeRequests.get(requestId)
+  if (local) {
+    if (!isOwner(local.owner, caller)) {
+      return 'forbidden'
+    }
+    console.log(`🛑 Cancelling ${requestId}`)
+    local.controller.abort()
+    return 'cancelled'
+  }
+
+  const { error } = await supabase
+    .from('ai_request_cancellations')
+    .upsert({
+      request_id: requestId,
+      user_id: caller.userId || null,
+      device_id: caller.deviceId || null,
+      verified: caller.verified || false,
+      requested_at: new Date().toISOString()
+    }, { onConflict: 'request_id' })
+  if (error) {
+    throw new Error(`Failed to record cancellation: ${error.message}`)
+  }
+  return 'requested'
+}
@@ -0,0 +1,121 @@
+import { createHash } from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import type { ModelRoute, ModelRouter } from './ai-providers'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// A/B experiments (ai_experiments, ai_experiment_arms). A running experiment
+// for a promptType puts a share of devices (or users) into one of its arms; an
+// arm can set the model, the temperature and a pinned prompt template version.
+// Assignment is a hash of the experiment and the device/user id, so the same
+// device stays in the same arm on every request and every server instance.
+
+const EXPERIMENT_CACHE_TTL = 60 * 1000
+
+export interface ExperimentAssignment {
+  experimentId: string
+  armId: string
+  route?: ModelRoute // The arm's model, when it sets one
+  temperature?: number
+  promptTemplateId?: string
+}
+
+// What ai_interactions records about the arm a request ran in
+export interface ExperimentRef {
+  experimentId: string
+  armId: string
+}
+
+interface ExperimentRow {
+  id: string
+  prompt_type: string | null
+  assignment_unit: 'device' | 'user'
+  traffic_percent: number
+  ai_experiment_arms: Array<{
+    id: string
+    weight: number
+    provider: string | null
+    model: string | null
+    temperature: number | null
+    prompt_template_id: string | null
+  }>
+}
+
+let experimentCache: { experiments: ExperimentRow[]; timestamp: number } | null = null
+
+async function getRunningExperiments(): Promise<ExperimentRow[]> {
+  if (experimentCache && Date.now() - experimentCache.timestamp < EXPERIMENT_CACHE_TTL) {
+    return experimentCache.experiments
+  }
+
+  const { data, error } = await supabase
+    .from('ai_experiments')
+    .select('id, prompt_type, assignment_unit, traffic_percent, ai_experiment_arms(id, weight, provider, model, temperature, prompt_template_id)')
+    .eq('status', 'running')
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  experimentCache = { experiments: (data || []) as ExperimentRow[], timestamp: Date.now() }
+  return experimentCache.experiments
+}
+
+// Stable number in [0, buckets) for a unit within an experiment
+function bucket(experimentId: string, salt: string, unitId: string, buckets: number): number {
+  const hash = createHash('sha256').update(`${experimentId}:${salt}:${unitId}`).digest()
+  return hash.readUInt32BE(0) % buckets
+}
+
+// The arm this request runs in, or null when no running experiment enrolls it.
+// With several experiments for the same promptType the oldest enrolling one wins,
+// so a request is only ever in one experiment. An arm whose model the user's
+// tier can't use is skipped rather than downgraded, so each arm's results only
+// ever come from its own model.
+export async function assignExperiment(
+  promptType: string | undefined,
+  units: { deviceId?: string; userId?: string },
+  modelRouter: ModelRouter
+): Promise<ExperimentAssignment | null> {
+  let experiments: ExperimentRow[]
+  try {
+    experiments = await getRunningExperiments()
+  } catch (error) {
+    console.error('Failed to load experiments:', error)
+    return null
+  }
+
+  for (const experiment of experiments) {
+    if (experiment.prompt_type && experiment.prompt_type !== promptType) continue
+    const unitId = experiment.assignment_unit === 'user' ? units.userId : units.deviceId
+    if (!unitId) continue
+    if (bucket(experiment.id, 'traffic', unitId, 100) >= experiment.traffic_percent) continue
+
+    const arms = experiment.ai_experiment_arms.filter(arm => arm.weight > 0)
+    const totalWeight = arms.reduce((sum, arm) => sum + arm.weight, 0)
+    if (totalWeight === 0) continue
+
+    // Sorted by id so the order rows come back in can't change anyone's arm
+    let point = bucket(experiment.id, 'arm', unitId, totalWeight)
+    const arm = [...arms].sort((a, b) => a.id.localeCompare(b.id)).find(candidate => {
+      point -= candidate.weight
+      return point < 0
+    })!
+
+    const route = arm.model ? modelRouter.route(arm.provider || undefined, arm.model) : undefined
+    if (route?.downgradedFrom) continue
+
+    return {
+      experimentId: experiment.id,
+      armId: arm.id,
+      route,
+      temperature: arm.temperature ?? undefined,
+      promptTemplateId: arm.prompt_template_id || undefined
+    }
+  }
+  return null
+}
@@ -0,0 +1,98 @@
+import { createClient } from '@supabase/supabase-js'
+import type { TokenUsage } from './ai-providers'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Pricing rows change rarely, so keep them in memory for a few minutes
+const PRICING_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
+
+interface ModelPricing {
+  model: string
+  input_per_million: number | null
+  cached_input_per_million: number | null
+  cache_write_per_million: number | null
+  output_per_million: number | null
+  per_image: number | null
+  per_million_characters: number | null
+}
+
+// What a single ai_interactions row consumed
+export interface CostInput {
+  usage?: TokenUsage
+  images?: number
+  characters?: number
+}
+
+let pricingCache: { rows: ModelPricing[]; timestamp: number } | null = null
+
+async function getPricingTable(): Promise<ModelPricing[]> {
+  if (pricingCache && Date.now() - pricingCache.timestamp < PRICING_CACHE_TTL) {
+    return pricingCache.rows
+  }
+
+  const { data, error } = await supabase
+    .from('model_pricing')
+    .select('model, input_per_million, cached_input_per_million, cache_write_per_million, output_per_million, per_image, per_million_characters')
+
+  if (error) {
+    throw error
+  }
+
+  pricingCache = { rows: data || [], timestamp: Date.now() }
+  return pricingCache.rows
+}
+
+// Exact match first, then the longest pricing key the model name starts with
+// (so "claude-sonnet-4-5" prices "claude-sonnet-4-5-20250929")
+function findPricing(rows: ModelPricing[], model: string): ModelPricing | undefined {
+  return rows.find(row => row.model === model) ||
+    rows
+      .filter(row => model.startsWith(row.model))
+      .sort((a, b) => b.model.length - a.model.length)[0]
+}
+
+// Compute the USD cost of one interaction. Returns null when the model has no
+// pricing row or nothing billable was measured, so unknown costs stay visible.
+export async function calculateCost(model: string, input: CostInput): Promise<number | null> {
+  try {
+    const pricing = findPricing(await getPricingTable(), model)
+    if (!pricing) {
+      console.warn(`No pricing configured for model: ${model}`)
+      return null
+    }
+
+    let cost = 0
+    let hasBillableUnits = false
+
+    if (input.usage) {
+      const cachedTokens = input.usage.cachedTokens || 0
+      const cacheWriteTokens = input.usage.cacheWriteTokens || 0
+      const uncachedInputTokens = Math.max(0, (input.usage.inputTokens || 0) - cachedTokens - cacheWriteTokens)
+      const cachedRate = pricing.cached_input_per_million ?? pricing.input_per_million ?? 0
+      const cacheWriteRate = pricing.cache_write_per_million ?? pricing.input_per_million ?? 0
+      cost += uncachedInputTokens * (pricing.input_per_million || 0) / 1_000_000
+      cost += cachedTokens * cachedRate / 1_000_000
+      cost += cacheWriteTokens * cacheWriteRate / 1_000_000
+      cost += (input.usage.outputTokens || 0) * (pricing.output_per_million || 0) / 1_000_000
+      hasBillableUnits = true
+    }
+
+    if (input.images) {
+      cost += input.images * (pricing.per_image || 0)
+      hasBillableUnits = true
+    }
+
+    if (input.characters) {
+      cost += input.characters * (pricing.per_million_characters || 0) / 1_000_000
+      hasBillableUnits = true
+    }
+
+    return hasBillableUnits ? Number(cost.toFixed(8)) : null
+  } catch (error) {
+    console.error('Failed to calculate AI cost:', error)
+    return null
+  }
+}
@@ -0,0 +1,370 @@
+import { keyCheckResult, ProviderError } from './errors'
+import { isToolResult } from './messages'
+import { readSSEData } from './sse'
+import type {
+  AIProvider,
+  FinishReason,
+  Message,
+  StreamCallbacks,
+  StreamRequest,
+  StreamResult,
+  TokenUsage,
+  Tool
+} from './types'
+
+const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929'
+
+// Anthropic has no JSON mode, so structured responses are forced through this tool
+const RESPONSE_TOOL_NAME = 'respond'
+
+interface AnthropicUsage {
+  input_tokens?: number
+  output_tokens?: number
+  cache_read_input_tokens?: number
+  cache_creation_input_tokens?: number
+}
+
+interface AnthropicStreamEvent {
+  type: string
+  index?: number
+  message?: { usage?: AnthropicUsage }
+  usage?: AnthropicUsage
+  content_block?: { type: string; id?: string; name?: string }
+  delta?: {
+    type?: string
+    text?: string
+    partial_json?: string
+    stop_reason?: string | null
+  }
+  error?: { type?: string; message?: string }
+}
+
+// Handle both OpenAI format (nested function) and direct format
+function toAnthropicTools(tools: Tool[]) {
+  return tools.map(tool => {
+    const toolData = tool.function || tool
+    return {
+      name: toolData.name,
+      description: toolData.description,
+      input_schema: toolData.parameters
+    }
+  })
+}
+
+// input_tokens excludes cache reads and writes, so add them back for the full prompt size
+function toTokenUsage(usage: AnthropicUsage): TokenUsage {
+  const cachedTokens = usage.cache_read_input_tokens || 0
+  const cacheWriteTokens = usage.cache_creation_input_tokens || 0
+  const inputTokens = (usage.input_tokens || 0) + cachedTokens + cacheWriteTokens
+  const outputTokens = usage.output_tokens || 0
+  return {
+    inputTokens,
+    outputTokens,
+    cachedTokens,
+    cacheWriteTokens,
+    totalTokens: inputTokens + outputTokens
+  }
+}
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: string | Array<Record<string, unknown>>
+}
+
+// Tool calls become tool_use blocks on the assistant turn, and results become
+// tool_result blocks on a user turn. Anthropic wants all results for a turn in
+// one user message, so consecutive results are merged.
+function toAnthropicMessages(messages: Message[]): AnthropicMessage[] {
+  const converted: AnthropicMessage[] = []
+
+  for (const m of messages) {
+    if (isToolResult(m)) {
+      const block = {
+        type: 'tool_result',
+        tool_use_id: m.toolCallId,
+        content: m.content,
+        ...(m.isError ? { is_error: true } : {})
+      }
+      const last = converted[converted.length - 1]
+      if (last?.role === 'user' && Array.isArray(last.content) && last.content.every(b => b.type === 'tool_result')) {
+        last.content.push(block)
+      } else {
+        converted.push({ role: 'user', content: [block] })
+      }
+      continue
+    }
+
+    if (m.role === 'assistant' && m.toolCalls && m.toolCalls.length > 0) {
+      const blocks: Array<Record<string, unknown>> = m.content ? [{ type: 'text', text: m.content }] : []
+      for (const toolCall of m.toolCalls) {
+        blocks.push({ type: 'tool_use', id: toolCall.id, name: toolCall.toolName, input: toolCall.arguments || {} })
+      }
+      converted.push({ role: 'assistant', content: blocks })
+      continue
+    }
+
+    converted.push({ role: m.role === 'assistant' ? 'assistant' : 'user', content: m.content })
+  }
+
+  return converted
+}
+
+// Mark the end of the repeated history as a cache breakpoint, so the next turn
+// reads everything up to here from the prompt cache
+function addHistoryCacheBreakpoint(messages: AnthropicMessage[]) {
+  const last = messages[messages.length - 1]
+  if (!last) return
+
+  if (typeof last.content === 'string') {
+    if (last.content.length === 0) return
+    last.content = [{ type: 'text', text: last.content, cache_control: { type: 'ephemeral' } }]
+  } else if (last.content.length > 0) {
+    last.content[last.content.length - 1] = {
+      ...last.content[last.content.length - 1],
+      cache_control: { type: 'ephemeral' }
+    }
+  }
+}
+
+function mapStopReason(reason: string): FinishReason {
+  switch (reason) {
+    case 'max_tokens':
+      return 'length'
+    case 'tool_use':
+      return 'tool_calls'
+    case 'refusal':
+      return 'content_filter'
+    default:
+      return 'stop'
+  }
+}
+
+async function stream(request: StreamRequest, callbacks: StreamCallbacks): Promise<StreamResult> {
+  const { message, previousMessages, model, tools, imagesData, imageMediaType, responseSchema } = request
+
+  const apiKey = request.apiKey || process.env.ANTHROPIC_API_KEY
+  if (!apiKey) {
+    throw new Error('Anthropic API key not configured')
+  }
+
+  // Anthropic requires system message separately. Several system messages
+  // (e.g. the prompt plus a compacted history summary) are joined.
+  const systemPrompt = previousMessages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n')
+  const conversationMessages = toAnthropicMessages(previousMessages.filter(m => m.role !== 'system'))
+  addHistoryCacheBreakpoint(conversationMessages)
+
+  // For regeneration requests (affirmation, focuses, capacity), the message is empty
+  // and the actual prompt is in conversationMessages. Don't add empty user message.
+  const messages = [...conversationMessages]
+  const hasImages = imagesData && imagesData.length > 0 && imageMediaType
+  const hasUserContent = message.trim().length > 0 || hasImages
+  if (hasUserContent) {
+    // Build user message content - multimodal if images are attached
+    if (hasImages) {
+      const contentParts: Array<Record<string, unknown>> = imagesData.map(imgData => ({
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: imageMediaType,
+          data: imgData
+        }
+      }))
+      if (message.trim().length > 0) {
+        contentParts.push({ type: 'text', text: message })
+      }
+      messages.push({ role: 'user', content: contentParts })
+    } else {
+      messages.push({ role: 'user', content: message })
+    }
+  }
+
+  const requestBody: Record<string, unknown> = {
+    model: model || DEFAULT_MODEL,
+    max_tokens: 4096,
+    messages,
+    stream: true
+  }
+
+  if (request.temperature !== undefined) {
+    requestBody.temperature = request.temperature
+  }
+
+  // Coach system prompts repeat on every turn, so they are always a cache breakpoint
+  if (systemPrompt) {
+    requestBody.system = [{ type: 'text', text: systemPrompt, cache_control: { type: 'ephemeral' } }]
+  }
+
+  if (tools && tools.length > 0) {
+    requestBody.tools = toAnthropicTools(tools)
+  }
+
+  // The response tool's input is the answer. With other tools available the
+  // model may call those first, otherwise it must call the response tool.
+  if (responseSchema) {
+    const responseTool = {
+      name: RESPONSE_TOOL_NAME,
+      description: 'Give the final answer as structured data',
+      input_schema: responseSchema
+    }
+    requestBody.tools = [...((requestBody.tools as unknown[]) || []), responseTool]
+    requestBody.tool_choice = tools && tools.length > 0
+      ? { type: 'any' }
+      : { type: 'tool', name: RESPONSE_TOOL_NAME }
+  }
+
+  const response = await fetch('https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(requestBody),
+    signal: request.signal
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new ProviderError(
+      'anthropic',
+      `Anthropic API error: ${error.error?.message || response.statusText}`,
+      response.status
+    )
+  }
+
+  if (!response.body) {
+    throw new Error('No response body from Anthropic')
+  }
+
+  // Each tool_use is its own content block, so several can be open in one turn
+  const accumulatedToolUses = new Map<number, { id?: string; name?: string; input: string }>()
+  let responseBlockIndex: number | undefined
+  let hasToolInvocations = false
+  let finishReason: FinishReason = 'stop'
+  let streamError: ProviderError | undefined
+  // message_start carries input usage, message_delta the running output count
+  let rawUsage: AnthropicUsage | undefined
+
+  for await (const data of readSSEData(response.body)) {
+    try {
+      const parsed: AnthropicStreamEvent = JSON.parse(data)
+
+      // Overload and API errors can also arrive as an in-stream event
+      if (parsed.type === 'error') {
+        streamError = new ProviderError(
+          'anthropic',
+          `Anthropic API error: ${parsed.error?.message || parsed.error?.type}`,
+          parsed.error?.type === 'overloaded_error' ? 529 : 500
+        )
+        break
+      }
+
+      if (parsed.type === 'message_start' && parsed.message?.usage) {
+        rawUsage = { ...parsed.message.usage }
+      }
+
+      if (parsed.type === 'message_delta' && parsed.usage) {
+        rawUsage = { ...rawUsage, ...parsed.usage }
+      }
+
+      // Handle text deltas
+      if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
+        const shouldContinue = callbacks.onChunk?.(parsed.delta.text)
+        if (shouldContinue === false) {
+          // Client disconnected, abort stream
+          const usage = rawUsage && toTokenUsage(rawUsage)
+          return { tokensUsed: usage?.totalTokens, usage, finishReason: 'aborted' }
+        }
+      }
+
+      // Handle tool use start
+      if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
+        if (responseSchema && parsed.content_block.name === RESPONSE_TOOL_NAME) {
+          responseBlockIndex = parsed.index ?? 0
+          continue
+        }
+        accumulatedToolUses.set(parsed.index ?? 0, {
+          id: parsed.content_block.id,
+          name: parsed.content_block.name,
+          input: ''
+        })
+      }
+
+      // The response tool's JSON is streamed as text, like a JSON mode answer
+      if (parsed.type === 'content_block_delta' && parsed.index === responseBlockIndex && parsed.delta?.partial_json) {
+        const shouldContinue = callbacks.onChunk?.(parsed.delta.partial_json)
+        if (shouldContinue === false) {
+          const usage = rawUsage && toTokenUsage(rawUsage)
+          return { tokensUsed: usage?.totalTokens, usage, finishReason: 'aborted' }
+        }
+        continue
+      }
+
+      // Handle tool use delta
+      if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'input_json_delta') {
+        const toolUse = accumulatedToolUses.get(parsed.index ?? 0)
+        if (toolUse) {
+          toolUse.input += parsed.delta.partial_json || ''
+        }
+      }
+
+      // Handle tool use complete
+      if (parsed.type === 'content_block_stop') {
+        const blockIndex = parsed.index ?? 0
+        const toolUse = accumulatedToolUses.get(blockIndex)
+        if (toolUse?.name) {
+          accumulatedToolUses.delete(blockIndex)
+          try {
+            const args = JSON.parse(toolUse.input || '{}')
+            hasToolInvocations = true
+            callbacks.onToolInvocation?.({
+              id: toolUse.id || `tool_${Date.now()}`,
+              toolName: toolUse.name,
+              arguments: args,
+              timestamp: new Date().toISOString()
+            })
+          } catch (e) {
+            console.error(`Failed to parse tool input for ${toolUse.name}:`, e)
+          }
+        }
+      }
+
+      if (parsed.type === 'message_delta' && parsed.delta?.stop_reason) {
+        // A forced response tool call is the final answer, not a tool round trip
+        finishReason = responseBlockIndex !== undefined && !hasToolInvocations
+          ? 'stop'
+          : mapStopReason(parsed.delta.stop_reason)
+      }
+    } catch (e) {
+      console.error('Failed to parse Anthropic SSE line:', e)
+    }
+  }
+
+  if (streamError) {
+    throw streamError
+  }
+
+  const usage = rawUsage && toTokenUsage(rawUsage)
+  return { tokensUsed: usage?.totalTokens, usage, finishReason }
+}
+
+async function validateKey(apiKey: string, signal?: AbortSignal): Promise<boolean> {
+  const response = await fetch('https://api.anthropic.com/v1/models?limit=1', {
+    headers: {
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01'
+    },
+    signal
+  })
+  return keyCheckResult('anthropic', response)
+}
+
+export const anthropicProvider: AIProvider = {
+  name: 'anthropic',
+  defaultModel: DEFAULT_MODEL,
+  stream,
+  validateKey
+}
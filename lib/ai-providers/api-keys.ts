@@ -0,0 +1,48 @@
+import { createHash } from 'crypto'
+import { getProvider } from './registry'
+import type { AIProviderName } from './types'
+
+// Bring-your-own-key (BYOK) checks. A user's key only skips our rate limits
+// once the provider has accepted it, so a made-up key can't be used to get
+// free requests. Results are cached in memory under a hash of the key - the
+// key itself is never stored, logged or written to the database.
+
+const VALIDATION_TTL_MS = 10 * 60 * 1000
+const MAX_CACHED_KEYS = 1000
+
+const validatedKeys = new Map<string, { valid: boolean; expiresAt: number }>()
+
+function keyFingerprint(provider: AIProviderName, apiKey: string): string {
+  return createHash('sha256').update(`${provider}:${apiKey}`).digest('hex')
+}
+
+// True if the provider accepts the key, false if it rejects it. Throws a
+// ProviderError when the provider can't be reached to decide either way.
+export async function validateApiKey(
+  provider: AIProviderName,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const fingerprint = keyFingerprint(provider, apiKey)
+  const cached = validatedKeys.get(fingerprint)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.valid
+  }
+
+  const valid = await getProvider(provider).validateKey(apiKey, signal)
+  if (validatedKeys.size >= MAX_CACHED_KEYS) {
+    // Maps keep insertion order, so this drops the oldest entry
+    const oldest = validatedKeys.keys().next().value
+    if (oldest) validatedKeys.delete(oldest)
+  }
+  validatedKeys.set(fingerprint, { valid, expiresAt: Date.now() + VALIDATION_TTL_MS })
+  return valid
+}
+
+// Provider error messages sometimes echo the key they were sent
+export function redactApiKey(text: string, apiKey: string | undefined): string {
+  if (!apiKey) {
+    return text
+  }
+  return text.split(apiKey).join('[REDACTED]')
+}
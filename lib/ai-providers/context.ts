@@ -0,0 +1,186 @@
+import { applyPromptTemplate, type PromptTemplateRef } from '../prompt-templates'
+import { streamWithFallback, type ProviderTarget } from './fallback'
+import { HISTORY_SUMMARY_PREFIX, isToolResult } from './messages'
+import type { Message, StreamRequest, TokenUsage } from './types'
+
+// Input token limits by model prefix, longest prefix wins
+const CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-5': 272000,
+  'gpt-4o': 128000,
+  'claude': 200000,
+  'gemini-2.5': 1048576
+}
+const DEFAULT_CONTEXT_WINDOW = 128000
+
+// Room left for the answer, and slack for the rough token estimate
+const OUTPUT_RESERVE_TOKENS = 8192
+const ESTIMATE_SAFETY_RATIO = 0.9
+// After compaction the kept recent turns use at most this share of the budget
+const RECENT_HISTORY_RATIO = 0.5
+const IMAGE_TOKEN_ESTIMATE = 1600
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+// Compaction uses the summarizeConversation prompt type: its server-side
+// template when one is published, else this prompt
+const SUMMARY_PROMPT_TYPE = 'summarizeConversation'
+const DEFAULT_SUMMARY_PROMPT = `You compress coaching conversations so they can continue past the model's context limit.
+Write a concise summary of the conversation below for the coach to continue from. Keep the user's goals,
+feelings, key facts they shared, commitments and open questions, and anything from an earlier summary that
+still matters. Write in the third person, as plain prose without headings.`
+
+export interface HistoryCompaction {
+  summaryMessage: Message // Replaces any earlier summary and the first replacedMessageCount non-system messages
+  replacedMessageCount: number
+  usage?: TokenUsage
+  servedBy: ProviderTarget
+  latencyMs: number
+  template?: PromptTemplateRef // The summarizeConversation template, when one was used
+}
+
+export interface ContextFitResult {
+  previousMessages: Message[]
+  compaction?: HistoryCompaction
+}
+
+export function getContextWindow(model: string): number {
+  const prefix = Object.keys(CONTEXT_WINDOWS)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOW
+}
+
+// ~4 characters per token is close enough for budgeting across providers
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function estimateMessageTokens(message: Message): number {
+  const toolCallTokens = message.toolCalls ? estimateTokens(JSON.stringify(message.toolCalls)) : 0
+  return estimateTokens(message.content || '') + toolCallTokens + MESSAGE_OVERHEAD_TOKENS
+}
+
+function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0)
+}
+
+// A fallback may land on a smaller model, so budget for the smallest window in the chain
+function getInputBudget(targets: ProviderTarget[]): number {
+  const window = Math.min(...targets.map(target => getContextWindow(target.model)))
+  return Math.floor((window - OUTPUT_RESERVE_TOKENS) * ESTIMATE_SAFETY_RATIO)
+}
+
+function toTranscript(messages: Message[]): string {
+  return messages.map(m => {
+    if (m.role === 'system') {
+      return m.content
+    }
+    if (isToolResult(m)) {
+      return `tool result (${m.toolName || m.toolCallId}): ${m.content}`
+    }
+    const toolCalls = m.toolCalls?.map(call => ` [called ${call.toolName} ${JSON.stringify(call.arguments)}]`).join('') || ''
+    return `${m.role}: ${m.content}${toolCalls}`
+  }).join('\n\n')
+}
+
+async function summarize(
+  targets: ProviderTarget[],
+  messages: Message[],
+  apiKey: string | undefined,
+  budget: number,
+  signal: AbortSignal | undefined,
+  coachId: string | undefined
+): Promise<{ summary: string; usage?: TokenUsage; servedBy: ProviderTarget; template?: PromptTemplateRef }> {
+  // Keep the newest part of the transcript if even the old turns don't fit
+  let transcript = toTranscript(messages)
+  const maxTranscriptChars = budget * 4
+  if (transcript.length > maxTranscriptChars) {
+    transcript = transcript.slice(transcript.length - maxTranscriptChars)
+  }
+
+  const prompt = await applyPromptTemplate([{ role: 'system', content: DEFAULT_SUMMARY_PROMPT }], {
+    promptType: SUMMARY_PROMPT_TYPE,
+    coachId
+  })
+
+  const chunks: string[] = []
+  const result = await streamWithFallback(
+    targets,
+    {
+      message: transcript,
+      previousMessages: prompt.previousMessages,
+      apiKey,
+      signal
+    },
+    {
+      onChunk: (chunk) => {
+        chunks.push(chunk)
+      }
+    }
+  )
+  return { summary: chunks.join('').trim(), usage: result.usage, servedBy: result.servedBy, template: prompt.template }
+}
+
+// Keep the request inside the smallest context window of the target chain.
+// When the history is too long, the oldest turns are compacted into a summary
+// system message and the newest turns are kept as they are.
+export async function fitToContextWindow(
+  targets: ProviderTarget[],
+  request: Omit<StreamRequest, 'model'>,
+  options: { coachId?: string } = {} // Picks the coach's summarizeConversation template
+): Promise<ContextFitResult> {
+  const budget = getInputBudget(targets)
+  const imageTokens = (request.imagesData?.length || 0) * IMAGE_TOKEN_ESTIMATE
+  const fixedTokens = estimateTokens(request.message) + imageTokens +
+    estimateTokens(JSON.stringify(request.tools || []))
+  // An earlier summary is folded into the new one, so the summary keeps running
+  const isSummary = (m: Message) => m.role === 'system' && m.content.startsWith(HISTORY_SUMMARY_PREFIX)
+  const previousSummaries = request.previousMessages.filter(isSummary)
+  const systemMessages = request.previousMessages.filter(m => m.role === 'system' && !isSummary(m))
+  const conversation = request.previousMessages.filter(m => m.role !== 'system')
+
+  const totalTokens = fixedTokens + estimateMessagesTokens(request.previousMessages)
+  if (totalTokens <= budget || conversation.length < 2) {
+    return { previousMessages: request.previousMessages }
+  }
+
+  // Walk back from the newest turn until the recent share of the budget is used
+  const recentBudget = budget * RECENT_HISTORY_RATIO - fixedTokens - estimateMessagesTokens(systemMessages)
+  let splitIndex = conversation.length
+  let recentTokens = 0
+  while (splitIndex > 1 && recentTokens + estimateMessageTokens(conversation[splitIndex - 1]) <= recentBudget) {
+    splitIndex--
+    recentTokens += estimateMessageTokens(conversation[splitIndex])
+  }
+  // Never start the kept turns on a tool result whose call was compacted away
+  while (splitIndex < conversation.length && isToolResult(conversation[splitIndex])) {
+    splitIndex++
+  }
+
+  const startTime = Date.now()
+  const { summary, usage, servedBy, template } = await summarize(
+    targets,
+    [...previousSummaries, ...conversation.slice(0, splitIndex)],
+    request.apiKey,
+    budget,
+    request.signal,
+    options.coachId
+  )
+  // Cancelled while summarizing - the request won't go ahead, so don't report a compaction
+  if (request.signal?.aborted) {
+    return { previousMessages: request.previousMessages }
+  }
+  const summaryMessage: Message = { role: 'system', content: `${HISTORY_SUMMARY_PREFIX}${summary}` }
+  console.log(`🗜️ Compacted ${splitIndex} messages (~${totalTokens} tokens, budget ${budget}) into a history summary`)
+
+  return {
+    previousMessages: [...systemMessages, summaryMessage, ...conversation.slice(splitIndex)],
+    compaction: {
+      summaryMessage,
+      replacedMessageCount: splitIndex,
+      usage,
+      servedBy,
+      latencyMs: Date.now() - startTime,
+      template
+    }
+  }
+}
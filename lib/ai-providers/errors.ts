@@ -0,0 +1,62 @@
+import type { AIProviderName } from './types'
+
+// HTTP statuses worth retrying on another provider (529 = Anthropic overloaded)
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504, 529]
+
+// Error raised when an upstream provider rejects or fails a request
+export class ProviderError extends Error {
+  provider: AIProviderName
+  status?: number
+  code: string
+  retryable: boolean
+
+  constructor(provider: AIProviderName, message: string, status?: number) {
+    super(message)
+    this.name = 'ProviderError'
+    this.provider = provider
+    this.status = status
+    this.code = status ? `HTTP_${status}` : 'PROVIDER_UNAVAILABLE'
+    this.retryable = status === undefined || RETRYABLE_STATUSES.includes(status)
+  }
+}
+
+// Statuses a provider's key check answers with when the key itself is rejected.
+// Gemini reports an invalid key as 400; for OpenAI and Anthropic a 400 is a
+// malformed check request and says nothing about the key.
+const REJECTED_KEY_STATUSES: Record<AIProviderName, number[]> = {
+  openai: [401, 403],
+  anthropic: [401, 403],
+  gemini: [400, 401, 403]
+}
+
+// Outcome of a provider's key check request. Anything unexpected means the key
+// couldn't be checked. The response body is left out of the error, since it may echo the key.
+export function keyCheckResult(provider: AIProviderName, response: Response): boolean {
+  if (response.ok) {
+    return true
+  }
+  if (REJECTED_KEY_STATUSES[provider].includes(response.status)) {
+    return false
+  }
+  throw new ProviderError(provider, `Could not validate the ${provider} API key: ${response.statusText}`, response.status)
+}
+
+// Provider errors carry their own flag; network failures from fetch are retryable too
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.retryable
+  }
+  return error instanceof TypeError && error.message.includes('fetch failed')
+}
+
+// The model's answer could not be turned into JSON matching the requested schema
+export class StructuredOutputError extends Error {
+  code = 'INVALID_STRUCTURED_OUTPUT'
+  validationErrors: string[]
+
+  constructor(message: string, validationErrors: string[]) {
+    super(message)
+    this.name = 'StructuredOutputError'
+    this.validationErrors = validationErrors
+  }
+}
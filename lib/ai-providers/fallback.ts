@@ -0,0 +1,109 @@
+import { createClient } from '@supabase/supabase-js'
+import { isRetryableError } from './errors'
+import { getProvider, isSupportedProvider } from './registry'
+import type {
+  AIProviderName,
+  StreamCallbacks,
+  StreamRequest,
+  StreamResult
+} from './types'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+export interface ProviderTarget {
+  provider: AIProviderName
+  model: string
+}
+
+export interface FallbackStreamResult extends StreamResult {
+  servedBy: ProviderTarget
+  fallbackAttempts: number // Number of targets that failed before one served the request
+}
+
+// Used when global_settings has no ai_fallback_chains entry
+const DEFAULT_FALLBACK_CHAINS: Record<string, ProviderTarget[]> = {
+  default: [
+    { provider: 'openai', model: 'gpt-5.1' },
+    { provider: 'anthropic', model: 'claude-sonnet-4-5-20250929' }
+  ]
+}
+
+// Fetch the fallback chain for a prompt type from global_settings.
+// The setting is a JSON object keyed by promptType with a "default" entry.
+export async function getFallbackChain(promptType?: string): Promise<ProviderTarget[]> {
+  let chains = DEFAULT_FALLBACK_CHAINS
+  try {
+    const { data } = await supabase
+      .from('global_settings')
+      .select('value')
+      .eq('key', 'ai_fallback_chains')
+      .single()
+
+    if (data?.value) {
+      chains = JSON.parse(data.value)
+    }
+  } catch (error) {
+    console.error('Failed to fetch fallback chains:', error)
+  }
+
+  const chain = (promptType && chains[promptType]) || chains.default || []
+  return chain.filter(target => isSupportedProvider(target.provider) && target.model)
+}
+
+// Stream from the first target, moving down the chain on retryable errors.
+// Once any text or tool call has reached the client the error is rethrown,
+// since switching providers mid-answer would produce a garbled response.
+export async function streamWithFallback(
+  targets: ProviderTarget[],
+  request: Omit<StreamRequest, 'model'>,
+  callbacks: StreamCallbacks
+): Promise<FallbackStreamResult> {
+  // Drop duplicate provider/model pairs while keeping chain order
+  const uniqueTargets = targets.filter((target, index) =>
+    targets.findIndex(t => t.provider === target.provider && t.model === target.model) === index
+  )
+
+  let hasDelivered = false
+  const trackedCallbacks: StreamCallbacks = {
+    onChunk: (chunk) => {
+      hasDelivered = true
+      return callbacks.onChunk?.(chunk)
+    },
+    onToolInvocation: (invocation) => {
+      hasDelivered = true
+      callbacks.onToolInvocation?.(invocation)
+    }
+  }
+
+  let lastError: unknown
+  for (let attempt = 0; attempt < uniqueTargets.length; attempt++) {
+    const target = uniqueTargets[attempt]
+    try {
+      // A user's own key belongs to the requested (first) provider and is never
+      // sent to another one; later providers in the chain use the server key
+      const apiKey = target.provider === uniqueTargets[0].provider ? request.apiKey : undefined
+      const result = await getProvider(target.provider).stream(
+        { ...request, model: target.model, apiKey },
+        trackedCallbacks
+      )
+      return { ...result, servedBy: target, fallbackAttempts: attempt }
+    } catch (error) {
+      // Cancelled through the cancel endpoint, so end quietly instead of failing
+      if (request.signal?.aborted) {
+        return { finishReason: 'cancelled', servedBy: target, fallbackAttempts: attempt }
+      }
+      lastError = error
+      const hasNextTarget = attempt < uniqueTargets.length - 1
+      if (hasDelivered || !hasNextTarget || !isRetryableError(error)) {
+        throw error
+      }
+      const next = uniqueTargets[attempt + 1]
+      console.warn(`⚠️ ${target.provider}/${target.model} failed, falling back to ${next.provider}/${next.model}:`, error)
+    }
+  }
+
+  throw lastError ?? new Error('No AI provider available for this request')
+}
@@ -0,0 +1,279 @@
+import { keyCheckResult, ProviderError } from './errors'
+import { isToolResult, resolveToolName } from './messages'
+import { readSSEData } from './sse'
+import type {
+  AIProvider,
+  FinishReason,
+  JSONSchema,
+  Message,
+  StreamCallbacks,
+  StreamRequest,
+  StreamResult,
+  TokenUsage,
+  Tool
+} from './types'
+
+const DEFAULT_MODEL = 'gemini-2.5-flash'
+
+// Gemini accepts an OpenAPI subset of JSON schema and rejects these keys outright
+const UNSUPPORTED_SCHEMA_KEYS = ['additionalProperties', '$schema', 'strict']
+
+interface GeminiPart {
+  text?: string
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> }
+}
+
+interface GeminiStreamChunk {
+  candidates?: Array<{
+    content?: { parts?: GeminiPart[] }
+    finishReason?: string
+  }>
+  usageMetadata?: {
+    promptTokenCount?: number
+    candidatesTokenCount?: number
+    thoughtsTokenCount?: number
+    cachedContentTokenCount?: number
+    totalTokenCount?: number
+  }
+}
+
+function sanitizeSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(sanitizeSchema)
+  }
+  if (schema && typeof schema === 'object') {
+    const cleaned: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(schema)) {
+      if (UNSUPPORTED_SCHEMA_KEYS.includes(key)) continue
+      cleaned[key] = sanitizeSchema(value)
+    }
+    return cleaned
+  }
+  return schema
+}
+
+// Handle both OpenAI format (nested function) and direct format
+function toGeminiTools(tools: Tool[]) {
+  return [{
+    functionDeclarations: tools.map(tool => {
+      const toolData = tool.function || tool
+      return {
+        name: toolData.name,
+        description: toolData.description,
+        parameters: toolData.parameters ? sanitizeSchema(toolData.parameters) as JSONSchema : undefined
+      }
+    })
+  }]
+}
+
+// Tool calls become functionCall parts on the model turn and results become
+// functionResponse parts on a user turn, matched by tool name. Results of
+// parallel calls must share one turn, so consecutive results are merged.
+function toGeminiContents(messages: Message[]) {
+  const contents: Array<{ role: string; parts: Array<Record<string, unknown>> }> = []
+
+  for (const m of messages) {
+    if (isToolResult(m)) {
+      const part = {
+        functionResponse: {
+          id: m.toolCallId,
+          name: resolveToolName(m, messages),
+          response: m.isError ? { error: m.content } : { content: m.content }
+        }
+      }
+      const last = contents[contents.length - 1]
+      if (last?.role === 'user' && last.parts.every(p => p.functionResponse)) {
+        last.parts.push(part)
+      } else {
+        contents.push({ role: 'user', parts: [part] })
+      }
+      continue
+    }
+
+    const parts: Array<Record<string, unknown>> = m.content ? [{ text: m.content }] : []
+    for (const toolCall of m.toolCalls || []) {
+      parts.push({ functionCall: { id: toolCall.id, name: toolCall.toolName, args: toolCall.arguments || {} } })
+    }
+    contents.push({ role: m.role === 'assistant' ? 'model' : 'user', parts })
+  }
+
+  return contents
+}
+
+function mapFinishReason(reason: string): FinishReason {
+  switch (reason) {
+    case 'MAX_TOKENS':
+      return 'length'
+    case 'SAFETY':
+    case 'RECITATION':
+    case 'BLOCKLIST':
+    case 'PROHIBITED_CONTENT':
+    case 'SPII':
+      return 'content_filter'
+    default:
+      return 'stop'
+  }
+}
+
+async function stream(request: StreamRequest, callbacks: StreamCallbacks): Promise<StreamResult> {
+  const { message, previousMessages, model, tools, imagesData, imageMediaType, responseSchema } = request
+
+  const apiKey = request.apiKey || process.env.GEMINI_API_KEY
+  if (!apiKey) {
+    throw new Error('Gemini API key not configured')
+  }
+
+  // Gemini takes the system prompt separately and calls the assistant role "model".
+  // Several system messages (e.g. the prompt plus a compacted history summary) are joined.
+  const systemPrompt = previousMessages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n')
+  const contents = toGeminiContents(previousMessages.filter(m => m.role !== 'system'))
+
+  // For regeneration requests (affirmation, focuses, capacity), the message is empty
+  // and the actual prompt is in previousMessages. Don't add empty user message.
+  const hasImages = imagesData && imagesData.length > 0 && imageMediaType
+  if (message.trim().length > 0 || hasImages) {
+    const parts: Array<Record<string, unknown>> = hasImages
+      ? imagesData.map(imgData => ({
+          inlineData: {
+            mimeType: imageMediaType,
+            data: imgData
+          }
+        }))
+      : []
+    if (message.trim().length > 0) {
+      parts.push({ text: message })
+    }
+    contents.push({ role: 'user', parts })
+  }
+
+  const modelName = model || DEFAULT_MODEL
+  const generationConfig: Record<string, unknown> = {
+    maxOutputTokens: 8192
+  }
+
+  if (request.temperature !== undefined) {
+    generationConfig.temperature = request.temperature
+  }
+
+  // JSON mode can't be combined with function calling, so with tools the
+  // schema is left to the gateway's own validation
+  if (responseSchema && !(tools && tools.length > 0)) {
+    generationConfig.responseMimeType = 'application/json'
+    generationConfig.responseSchema = sanitizeSchema(responseSchema)
+  }
+
+  const requestBody: Record<string, unknown> = {
+    contents,
+    generationConfig
+  }
+
+  if (systemPrompt) {
+    requestBody.systemInstruction = { parts: [{ text: systemPrompt }] }
+  }
+
+  if (tools && tools.length > 0) {
+    requestBody.tools = toGeminiTools(tools)
+  }
+
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:streamGenerateContent?alt=sse`,
+    {
+      method: 'POST',
+      headers: {
+        'x-goog-api-key': apiKey,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(requestBody),
+      signal: request.signal
+    }
+  )
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    let errorMessage = response.statusText
+    try {
+      errorMessage = JSON.parse(errorText).error?.message || errorMessage
+    } catch {
+      // Non-JSON error body, keep the status text
+    }
+    throw new ProviderError('gemini', `Gemini API error: ${errorMessage}`, response.status)
+  }
+
+  if (!response.body) {
+    throw new Error('No response body from Gemini')
+  }
+
+  let finishReason: FinishReason = 'stop'
+  let hasToolCalls = false
+  let usage: TokenUsage | undefined
+
+  for await (const data of readSSEData(response.body)) {
+    try {
+      const parsed: GeminiStreamChunk = JSON.parse(data)
+
+      // Every chunk repeats the running totals, the last one wins
+      if (parsed.usageMetadata) {
+        const metadata = parsed.usageMetadata
+        usage = {
+          inputTokens: metadata.promptTokenCount,
+          outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+          cachedTokens: metadata.cachedContentTokenCount,
+          totalTokens: metadata.totalTokenCount
+        }
+      }
+
+      const candidate = parsed.candidates?.[0]
+      if (!candidate) continue
+
+      for (const part of candidate.content?.parts || []) {
+        // Handle text chunks
+        if (part.text) {
+          const shouldContinue = callbacks.onChunk?.(part.text)
+          if (shouldContinue === false) {
+            // Client disconnected, abort stream
+            return { tokensUsed: usage?.totalTokens, usage, finishReason: 'aborted' }
+          }
+        }
+
+        // Gemini sends each function call complete in a single part
+        if (part.functionCall) {
+          hasToolCalls = true
+          callbacks.onToolInvocation?.({
+            id: part.functionCall.id || `tool_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+            toolName: part.functionCall.name,
+            arguments: part.functionCall.args || {},
+            timestamp: new Date().toISOString()
+          })
+        }
+      }
+
+      if (candidate.finishReason) {
+        finishReason = hasToolCalls && candidate.finishReason === 'STOP'
+          ? 'tool_calls'
+          : mapFinishReason(candidate.finishReason)
+      }
+    } catch (e) {
+      console.error('Failed to parse Gemini SSE line:', e)
+    }
+  }
+
+  return { tokensUsed: usage?.totalTokens, usage, finishReason }
+}
+
+async function validateKey(apiKey: string, signal?: AbortSignal): Promise<boolean> {
+  const response = await fetch('https://generativelanguage.googleapis.com/v1beta/models?pageSize=1', {
+    headers: { 'x-goog-api-key': apiKey },
+    signal
+  })
+  return keyCheckResult('gemini', response)
+}
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  defaultModel: DEFAULT_MODEL,
+  stream,
+  validateKey
+}
@@ -0,0 +1,11 @@
+export * from './types'
+export * from './errors'
+export * from './messages'
+export * from './registry'
+export * from './api-keys'
+export * from './fallback'
+export * from './model-policy'
+export * from './context'
+export * from './json-schema'
+export * from './structured'
+export * from './usage'
@@ -0,0 +1,70 @@
+import type { JSONSchema } from './types'
+
+// Minimal JSON schema validator for structured responses. Covers the keywords
+// the app's schemas use: type, properties, required, additionalProperties,
+// items, enum, minItems and maxItems. Unknown keywords are ignored.
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer'
+  return typeof value
+}
+
+function matchesType(value: unknown, expected: string): boolean {
+  const actual = typeOf(value)
+  return actual === expected || (expected === 'number' && actual === 'integer')
+}
+
+function validateNode(value: unknown, schema: JSONSchema, path: string, errors: string[]) {
+  const type = schema.type as string | string[] | undefined
+  if (type) {
+    const types = Array.isArray(type) ? type : [type]
+    if (!types.some(t => matchesType(value, t))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`)
+      return
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`)
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>
+    const properties = (schema.properties || {}) as Record<string, JSONSchema>
+
+    for (const key of (schema.required as string[] | undefined) || []) {
+      if (!(key in object)) {
+        errors.push(`${path}.${key}: is required`)
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (properties[key]) {
+        validateNode(propertyValue, properties[key], `${path}.${key}`, errors)
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`)
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items`)
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items`)
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) => validateNode(item, schema.items as JSONSchema, `${path}[${index}]`, errors))
+    }
+  }
+}
+
+// Returns a list of human-readable problems, empty when the value is valid
+export function validateAgainstSchema(value: unknown, schema: JSONSchema): string[] {
+  const errors: string[] = []
+  validateNode(value, schema, '$', errors)
+  return errors
+}
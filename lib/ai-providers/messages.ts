@@ -0,0 +1,24 @@
+import type { Message } from './types'
+
+// Starts the system message that replaces compacted history (see context.ts)
+export const HISTORY_SUMMARY_PREFIX = 'Summary of the earlier conversation:\n'
+
+// Helpers shared by the providers when translating tool round-trips
+
+export function isToolResult(message: Message): boolean {
+  return message.role === 'tool' || message.role === 'tool_result'
+}
+
+// Gemini matches results by tool name, which the client may only send as a call id
+export function resolveToolName(message: Message, history: Message[]): string | undefined {
+  if (message.toolName) {
+    return message.toolName
+  }
+  for (const previous of history) {
+    const call = previous.toolCalls?.find(toolCall => toolCall.id === message.toolCallId)
+    if (call) {
+      return call.toolName
+    }
+  }
+  return undefined
+}
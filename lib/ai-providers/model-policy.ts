@@ -0,0 +1,172 @@
+import { createClient } from '@supabase/supabase-js'
+import type { ProviderTarget } from './fallback'
+import { getProvider, isSupportedProvider } from './registry'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Which models a request may use. The policy lives in global_settings
+// (ai_model_policy) and the user's tier in user_limits.model_tier. A model the
+// tier can't use is downgraded to a cheaper one instead of being rejected.
+
+export interface ModelRule {
+  allowed: ProviderTarget[]
+  default: ProviderTarget // Used when the request names no model
+}
+
+export interface ModelPolicy {
+  defaultTier: string // Users without a tier (or with an unknown one)
+  // Tier -> promptType -> rule; the "default" promptType covers every other one
+  tiers: Record<string, Record<string, ModelRule>>
+  // Cheaper replacement per model, followed until the tier allows one
+  downgrades: Record<string, ProviderTarget>
+}
+
+export interface ModelRoute extends ProviderTarget {
+  tier: string
+  downgradedFrom?: string // Requested model, when it was replaced
+}
+
+export interface ModelRouter {
+  tier: string
+  route(provider?: string, model?: string): ModelRoute
+}
+
+// Used when global_settings has no ai_model_policy entry; matches the policy
+// seeded by migration 020
+const DEFAULT_MODEL_POLICY: ModelPolicy = {
+  defaultTier: 'free',
+  tiers: {
+    free: {
+      default: {
+        allowed: [
+          { provider: 'openai', model: 'gpt-5.1' },
+          { provider: 'openai', model: 'gpt-5-nano' },
+          { provider: 'gemini', model: 'gemini-2.5-flash' }
+        ],
+        default: { provider: 'openai', model: 'gpt-5.1' }
+      },
+      dailyMetrics: {
+        allowed: [{ provider: 'openai', model: 'gpt-5-nano' }, { provider: 'gemini', model: 'gemini-2.5-flash' }],
+        default: { provider: 'openai', model: 'gpt-5-nano' }
+      },
+      dailyBoosts: {
+        allowed: [{ provider: 'openai', model: 'gpt-5-nano' }, { provider: 'gemini', model: 'gemini-2.5-flash' }],
+        default: { provider: 'openai', model: 'gpt-5-nano' }
+      }
+    },
+    premium: {
+      default: {
+        allowed: [
+          { provider: 'openai', model: 'gpt-5.1' },
+          { provider: 'openai', model: 'gpt-5-nano' },
+          { provider: 'anthropic', model: 'claude-sonnet-4-5-20250929' },
+          { provider: 'gemini', model: 'gemini-2.5-flash' }
+        ],
+        default: { provider: 'openai', model: 'gpt-5.1' }
+      }
+    }
+  },
+  downgrades: {
+    'claude-sonnet-4-5-20250929': { provider: 'gemini', model: 'gemini-2.5-flash' },
+    'gpt-5.1': { provider: 'openai', model: 'gpt-5-nano' }
+  }
+}
+
+async function getModelPolicy(): Promise<ModelPolicy> {
+  try {
+    const { data } = await supabase
+      .from('global_settings')
+      .select('value')
+      .eq('key', 'ai_model_policy')
+      .single()
+
+    if (data?.value) {
+      const policy: ModelPolicy = JSON.parse(data.value)
+      if (policy.tiers?.[policy.defaultTier]) {
+        return { ...policy, downgrades: policy.downgrades || {} }
+      }
+      console.error('ai_model_policy has no rules for its default tier, using the built-in policy')
+    }
+  } catch (error) {
+    console.error('Failed to fetch model policy:', error)
+  }
+  return DEFAULT_MODEL_POLICY
+}
+
+async function getModelTier(userId: string): Promise<string | null> {
+  try {
+    const { data } = await supabase
+      .from('user_limits')
+      .select('model_tier')
+      .eq('user_id', userId)
+      .single()
+    return data?.model_tier || null
+  } catch (error) {
+    console.error('Failed to fetch model tier:', error)
+    return null
+  }
+}
+
+function matches(target: ProviderTarget, provider: string | undefined, model: string): boolean {
+  return target.model === model && (!provider || target.provider === provider)
+}
+
+// Load the rules for a request. With unrestricted (the user's own validated
+// key, so the user pays) any model is allowed and only the defaults apply.
+export async function getModelRouter(
+  promptType?: string,
+  userId?: string,
+  options: { unrestricted?: boolean } = {}
+): Promise<ModelRouter> {
+  const [policy, userTier] = await Promise.all([
+    getModelPolicy(),
+    userId ? getModelTier(userId) : Promise.resolve(null)
+  ])
+  const tier = userTier && policy.tiers[userTier] ? userTier : policy.defaultTier
+  const rules = policy.tiers[tier]
+  const rule = (promptType && rules[promptType]) || rules.default ||
+    policy.tiers[policy.defaultTier].default || DEFAULT_MODEL_POLICY.tiers.free.default
+
+  const defaultFor = (provider?: string): ProviderTarget => {
+    if (!provider || provider === rule.default.provider) {
+      return rule.default
+    }
+    // A provider without a model: its first allowed model, else the provider's own default
+    const allowed = rule.allowed.find(target => target.provider === provider)
+    if (allowed) {
+      return allowed
+    }
+    if (options.unrestricted && isSupportedProvider(provider)) {
+      return { provider, model: getProvider(provider).defaultModel }
+    }
+    return rule.default
+  }
+
+  const route = (provider?: string, model?: string): ModelRoute => {
+    if (!model) {
+      return { ...defaultFor(provider), tier }
+    }
+    if (options.unrestricted) {
+      return { provider: defaultFor(provider).provider, model, tier }
+    }
+
+    // The provider only narrows the match - model names are unique across providers
+    let candidate: { provider?: string; model: string } | undefined = { provider, model }
+    const seen = new Set<string>()
+    while (candidate && !seen.has(candidate.model)) {
+      const { provider: candidateProvider, model: candidateModel } = candidate
+      const allowed = rule.allowed.find(target => matches(target, candidateProvider, candidateModel))
+      if (allowed) {
+        return { ...allowed, tier, downgradedFrom: allowed.model === model ? undefined : model }
+      }
+      seen.add(candidate.model)
+      candidate = policy.downgrades[candidate.model]
+    }
+    return { ...rule.default, tier, downgradedFrom: model }
+  }
+
+  return { tier, route }
+}
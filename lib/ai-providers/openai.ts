@@ -0,0 +1,263 @@
+import { keyCheckResult, ProviderError } from './errors'
+import { isToolResult } from './messages'
+import { readSSEData } from './sse'
+import type {
+  AIProvider,
+  FinishReason,
+  Message,
+  StreamCallbacks,
+  StreamRequest,
+  StreamResult,
+  TokenUsage,
+  Tool
+} from './types'
+
+const DEFAULT_MODEL = 'gpt-5.1'
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string
+      tool_calls?: Array<{
+        index?: number
+        id?: string
+        function?: { name?: string; arguments?: string }
+      }>
+    }
+    finish_reason?: string | null
+  }>
+  // Only present on the final chunk when stream_options.include_usage is set
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+    prompt_tokens_details?: { cached_tokens?: number }
+  } | null
+}
+
+// Tools may arrive already wrapped (iOS sends OpenAI format) or as bare definitions
+function toOpenAITools(tools: Tool[]) {
+  return tools.map(tool => ({
+    type: 'function',
+    function: tool.function || {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters
+    }
+  }))
+}
+
+interface AccumulatedToolCall {
+  id?: string
+  name?: string
+  arguments: string
+}
+
+function emitToolInvocations(toolCalls: Map<number, AccumulatedToolCall>, callbacks: StreamCallbacks) {
+  const ordered = [...toolCalls.entries()].sort(([a], [b]) => a - b)
+  for (const [, toolCall] of ordered) {
+    if (!toolCall.name) continue
+    try {
+      const args = JSON.parse(toolCall.arguments || '{}')
+      callbacks.onToolInvocation?.({
+        id: toolCall.id || `tool_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+        toolName: toolCall.name,
+        arguments: args,
+        timestamp: new Date().toISOString()
+      })
+    } catch (e) {
+      console.error(`Failed to parse tool arguments for ${toolCall.name}:`, e)
+    }
+  }
+}
+
+// Tool round-trips: assistant turns carry tool_calls, results go back as role "tool"
+function toOpenAIMessage(message: Message) {
+  if (isToolResult(message)) {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content }
+  }
+  if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map(toolCall => ({
+        id: toolCall.id,
+        type: 'function',
+        function: { name: toolCall.toolName, arguments: JSON.stringify(toolCall.arguments || {}) }
+      }))
+    }
+  }
+  return { role: message.role, content: message.content }
+}
+
+function mapFinishReason(reason: string): FinishReason {
+  switch (reason) {
+    case 'length':
+      return 'length'
+    case 'tool_calls':
+      return 'tool_calls'
+    case 'content_filter':
+      return 'content_filter'
+    default:
+      return 'stop'
+  }
+}
+
+async function stream(request: StreamRequest, callbacks: StreamCallbacks): Promise<StreamResult> {
+  const { message, previousMessages, model, tools, responseSchema } = request
+
+  const apiKey = request.apiKey || process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    throw new Error('OpenAI API key not configured')
+  }
+
+  // For regeneration requests (affirmation, focuses, capacity), the message is empty
+  // and the actual prompt is in previousMessages. Don't add empty user message.
+  const messages = message.trim().length > 0
+    ? [
+        ...previousMessages.map(toOpenAIMessage),
+        { role: 'user', content: message }
+      ]
+    : previousMessages.map(toOpenAIMessage)
+
+  const modelName = model || DEFAULT_MODEL
+  const requestBody: Record<string, unknown> = {
+    model: modelName,
+    messages,
+    stream: true
+  }
+
+  // Add GPT-5 specific parameters (same as old OpenAIService)
+  if (modelName.startsWith('gpt-5')) {
+    const maxTokens = modelName.includes('nano') ? 4096 : 8192
+    requestBody.max_completion_tokens = maxTokens
+    requestBody.reasoning_effort = 'low'
+  } else if (request.temperature !== undefined) {
+    // GPT-5 models reject anything but the default temperature
+    requestBody.temperature = request.temperature
+  }
+
+  // Ask for a final usage chunk so token counts can be tracked
+  requestBody.stream_options = { include_usage: true }
+
+  if (tools && tools.length > 0) {
+    requestBody.tools = toOpenAITools(tools)
+  }
+
+  // Structured outputs. Strict mode is off because the app's schemas don't all
+  // meet its rules (every property required, no open objects); the gateway
+  // validates the result itself.
+  if (responseSchema) {
+    requestBody.response_format = {
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: responseSchema, strict: false }
+    }
+  }
+
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(requestBody),
+    signal: request.signal
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new ProviderError(
+      'openai',
+      `OpenAI API error: ${error.error?.message || response.statusText}`,
+      response.status
+    )
+  }
+
+  if (!response.body) {
+    throw new Error('No response body from OpenAI')
+  }
+
+  // Parallel tool calls stream interleaved, keyed by their index in the turn
+  const accumulatedToolCalls = new Map<number, AccumulatedToolCall>()
+  let finishReason: FinishReason = 'stop'
+  let usage: TokenUsage | undefined
+
+  for await (const data of readSSEData(response.body)) {
+    if (data === '[DONE]') continue
+
+    try {
+      const parsed: OpenAIStreamChunk = JSON.parse(data)
+
+      // The usage chunk arrives last with an empty choices array
+      if (parsed.usage) {
+        usage = {
+          inputTokens: parsed.usage.prompt_tokens,
+          outputTokens: parsed.usage.completion_tokens,
+          cachedTokens: parsed.usage.prompt_tokens_details?.cached_tokens,
+          totalTokens: parsed.usage.total_tokens
+        }
+      }
+
+      const choice = parsed.choices?.[0]
+      if (!choice?.delta) continue
+
+      const delta = choice.delta
+
+      // Handle text chunks
+      if (delta.content) {
+        const shouldContinue = callbacks.onChunk?.(delta.content)
+        if (shouldContinue === false) {
+          // Client disconnected, abort stream
+          return { tokensUsed: usage?.totalTokens, usage, finishReason: 'aborted' }
+        }
+      }
+
+      // Handle tool calls - the id and name arrive on the first delta for each index
+      if (delta.tool_calls) {
+        for (const toolCall of delta.tool_calls) {
+          const index = toolCall.index ?? 0
+          const accumulated = accumulatedToolCalls.get(index) || { arguments: '' }
+          if (toolCall.id) {
+            accumulated.id = toolCall.id
+          }
+          if (toolCall.function?.name) {
+            accumulated.name = toolCall.function.name
+          }
+          if (toolCall.function?.arguments) {
+            accumulated.arguments += toolCall.function.arguments
+          }
+          accumulatedToolCalls.set(index, accumulated)
+        }
+      }
+
+      if (choice.finish_reason) {
+        finishReason = mapFinishReason(choice.finish_reason)
+      }
+
+      // Emit every tool call of the turn once the model is done
+      if (choice.finish_reason === 'tool_calls') {
+        emitToolInvocations(accumulatedToolCalls, callbacks)
+        accumulatedToolCalls.clear()
+      }
+    } catch (e) {
+      console.error('Failed to parse SSE line:', e)
+    }
+  }
+
+  return { tokensUsed: usage?.totalTokens, usage, finishReason }
+}
+
+async function validateKey(apiKey: string, signal?: AbortSignal): Promise<boolean> {
+  const response = await fetch('https://api.openai.com/v1/models', {
+    headers: { 'Authorization': `Bearer ${apiKey}` },
+    signal
+  })
+  return keyCheckResult('openai', response)
+}
+
+export const openAIProvider: AIProvider = {
+  name: 'openai',
+  defaultModel: DEFAULT_MODEL,
+  stream,
+  validateKey
+}
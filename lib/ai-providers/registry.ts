@@ -0,0 +1,18 @@
+import { anthropicProvider } from './anthropic'
+import { geminiProvider } from './gemini'
+import { openAIProvider } from './openai'
+import type { AIProvider, AIProviderName } from './types'
+
+const providers: Record<AIProviderName, AIProvider> = {
+  openai: openAIProvider,
+  anthropic: anthropicProvider,
+  gemini: geminiProvider
+}
+
+export function isSupportedProvider(name: string): name is AIProviderName {
+  return Object.prototype.hasOwnProperty.call(providers, name)
+}
+
+export function getProvider(name: AIProviderName): AIProvider {
+  return providers[name]
+}
@@ -0,0 +1,45 @@
+// Streaming timeout: 280 seconds (leave 20s buffer for Vercel's 300s limit)
+export const STREAM_TIMEOUT_MS = 280000
+
+// Reads an upstream SSE body and yields the payload of every `data:` line.
+// Breaking out of the loop cancels the upstream reader.
+export async function* readSSEData(
+  body: ReadableStream<Uint8Array>,
+  timeoutMs: number = STREAM_TIMEOUT_MS
+): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  const startTime = Date.now()
+  let buffer = ''
+  let finished = false
+
+  try {
+    while (true) {
+      // Check timeout
+      if (Date.now() - startTime > timeoutMs) {
+        console.error('Stream timeout exceeded, aborting')
+        throw new Error('Stream timeout: Response took too long')
+      }
+
+      const { done, value } = await reader.read()
+      if (done) {
+        finished = true
+        break
+      }
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) {
+          yield line.substring(6).trim()
+        }
+      }
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => {})
+    }
+  }
+}
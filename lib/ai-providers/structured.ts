@@ -0,0 +1,97 @@
+import { StructuredOutputError } from './errors'
+import { validateAgainstSchema } from './json-schema'
+import { addUsage } from './usage'
+import type { JSONSchema, StreamCallbacks, StreamRequest, StreamResult } from './types'
+
+export interface StructuredResult<R extends StreamResult> {
+  data: unknown
+  result: R // Result of the last upstream call, with usage summed over all attempts
+  attempts: number
+  repaired: boolean // The JSON needed local cleanup before it parsed
+}
+
+type StructuredRunner<R extends StreamResult> = (
+  request: Omit<StreamRequest, 'model'>,
+  callbacks: StreamCallbacks
+) => Promise<R>
+
+interface ParsedOutput {
+  data?: unknown
+  errors: string[]
+  repaired: boolean
+}
+
+// Models sometimes wrap JSON in markdown fences, add prose around it or leave
+// trailing commas. Strip those before giving up on the output.
+function repairJSON(text: string): string {
+  let repaired = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+  const start = repaired.search(/[[{]/)
+  const end = Math.max(repaired.lastIndexOf('}'), repaired.lastIndexOf(']'))
+  if (start !== -1 && end > start) {
+    repaired = repaired.slice(start, end + 1)
+  }
+  return repaired.replace(/,\s*([}\]])/g, '$1')
+}
+
+function parseOutput(text: string, schema: JSONSchema): ParsedOutput {
+  for (const [candidate, repaired] of [[text, false], [repairJSON(text), true]] as const) {
+    try {
+      const data = JSON.parse(candidate)
+      return { data, errors: validateAgainstSchema(data, schema), repaired }
+    } catch {
+      // Try the repaired text next
+    }
+  }
+  return { errors: ['response is not valid JSON'], repaired: false }
+}
+
+// Run a request in structured mode and return the validated JSON. If the
+// output is invalid even after local repair, the model is asked once more with
+// the validation errors before giving up with a StructuredOutputError.
+// A cancelled request returns without data.
+export async function generateStructured<R extends StreamResult>(
+  request: Omit<StreamRequest, 'model'> & { responseSchema: JSONSchema },
+  run: StructuredRunner<R>
+): Promise<StructuredResult<R>> {
+  const collect = async (attemptRequest: Omit<StreamRequest, 'model'>) => {
+    const chunks: string[] = []
+    const result = await run(attemptRequest, {
+      onChunk: (chunk) => {
+        chunks.push(chunk)
+      }
+    })
+    return { text: chunks.join(''), result }
+  }
+
+  const first = await collect(request)
+  if (first.result.finishReason === 'cancelled') {
+    return { data: undefined, result: first.result, attempts: 1, repaired: false }
+  }
+  const firstOutput = parseOutput(first.text, request.responseSchema)
+  if (firstOutput.errors.length === 0) {
+    return { data: firstOutput.data, result: first.result, attempts: 1, repaired: firstOutput.repaired }
+  }
+
+  console.warn('⚠️ Structured output failed validation, retrying:', firstOutput.errors)
+
+  const retryHistory = [...request.previousMessages]
+  if (request.message.trim().length > 0) {
+    retryHistory.push({ role: 'user', content: request.message })
+  }
+  retryHistory.push({ role: 'assistant', content: first.text })
+
+  const second = await collect({
+    ...request,
+    message: `Your previous response did not match the required JSON schema:\n- ${firstOutput.errors.join('\n- ')}\n\nRespond again with only the corrected JSON.`,
+    previousMessages: retryHistory,
+    imagesData: undefined
+  })
+  const usage = addUsage(first.result.usage, second.result.usage)
+  const result = { ...second.result, usage, tokensUsed: usage?.totalTokens }
+  const secondOutput = parseOutput(second.text, request.responseSchema)
+  if (secondOutput.errors.length > 0) {
+    throw new StructuredOutputError('Model response did not match the response schema', secondOutput.errors)
+  }
+
+  return { data: secondOutput.data, result, attempts: 2, repaired: secondOutput.repaired }
+}
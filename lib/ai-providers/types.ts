@@ -0,0 +1,86 @@
+// Shared types for the AI provider layer used by the gateway routes
+
+export type AIProviderName = 'openai' | 'anthropic' | 'gemini'
+
+// JSON schema object as sent by the iOS app (passed through to providers untouched)
+export type JSONSchema = Record<string, unknown>
+
+// A tool call the model made, echoed back by the client on the assistant message
+export interface ToolCall {
+  id: string
+  toolName: string
+  arguments: Record<string, unknown>
+}
+
+// 'tool_result' is accepted as an alias of 'tool' for the tool's output
+export type MessageRole = 'user' | 'assistant' | 'system' | 'tool' | 'tool_result'
+
+export interface Message {
+  role: MessageRole
+  content: string
+  toolCalls?: ToolCall[] // Assistant turns that invoked tools
+  toolCallId?: string // Tool results: id of the ToolCall being answered
+  toolName?: string // Tool results: name of the tool (looked up from toolCallId if missing)
+  isError?: boolean // Tool results: the tool failed and content describes the error
+}
+
+export interface Tool {
+  name?: string
+  description?: string
+  parameters?: JSONSchema
+  // OpenAI format has tools wrapped in a function object
+  function?: {
+    name: string
+    description: string
+    parameters: JSONSchema
+  }
+}
+
+export interface ToolInvocation extends ToolCall {
+  timestamp: string
+}
+
+export interface TokenUsage {
+  inputTokens?: number // Includes cache reads and writes
+  outputTokens?: number
+  cachedTokens?: number // Input tokens read from the prompt cache
+  cacheWriteTokens?: number // Input tokens written to the prompt cache (Anthropic)
+  totalTokens?: number
+}
+
+// Normalized reason the provider stopped generating
+// ('aborted' = the client went away, 'cancelled' = stopped via the cancel endpoint)
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'aborted' | 'cancelled'
+
+export interface StreamRequest {
+  message: string
+  previousMessages: Message[]
+  model?: string
+  tools?: Tool[]
+  apiKey?: string // User's own key for this provider (BYOK), falls back to the server key
+  imagesData?: string[] // Array of base64-encoded images for vision/OCR
+  imageMediaType?: string // MIME type e.g. "image/jpeg"
+  responseSchema?: JSONSchema // Constrain the answer to JSON matching this schema, streamed as text chunks
+  temperature?: number // Provider default when unset (ignored by OpenAI's GPT-5 reasoning models)
+  signal?: AbortSignal // Aborts the upstream fetch when the request is cancelled
+}
+
+export interface StreamCallbacks {
+  onChunk?: (chunk: string) => boolean | void // Returns false to abort
+  onToolInvocation?: (invocation: ToolInvocation) => void
+}
+
+export interface StreamResult {
+  tokensUsed?: number
+  usage?: TokenUsage
+  finishReason: FinishReason
+}
+
+export interface AIProvider {
+  name: AIProviderName
+  defaultModel: string
+  stream(request: StreamRequest, callbacks: StreamCallbacks): Promise<StreamResult>
+  // Cheap authenticated call: false when the provider rejects the key,
+  // throws a ProviderError when it can't tell (outage, rate limit)
+  validateKey(apiKey: string, signal?: AbortSignal): Promise<boolean>
+}
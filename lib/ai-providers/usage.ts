@@ -0,0 +1,15 @@
+import type { TokenUsage } from './types'
+
+// Sum token usage across several upstream calls made for one gateway request
+export function addUsage(total: TokenUsage | undefined, next: TokenUsage | undefined): TokenUsage | undefined {
+  if (!total || !next) {
+    return total || next
+  }
+  return {
+    inputTokens: (total.inputTokens || 0) + (next.inputTokens || 0),
+    outputTokens: (total.outputTokens || 0) + (next.outputTokens || 0),
+    cachedTokens: (total.cachedTokens || 0) + (next.cachedTokens || 0),
+    cacheWriteTokens: (total.cacheWriteTokens || 0) + (next.cacheWriteTokens || 0),
+    totalTokens: (total.totalTokens || 0) + (next.totalTokens || 0)
+  }
+}
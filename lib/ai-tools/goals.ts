@@ -0,0 +1,44 @@
+import { createClient } from '@supabase/supabase-js'
+import type { ServerTool } from './types'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const MAX_GOALS = 20
+
+export const getUserGoalsTool: ServerTool = {
+  name: 'get_user_goals',
+  description: "Look up the user's goals, most recently updated first. Use this before giving advice that depends on what the user is working towards.",
+  parameters: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['active', 'completed', 'archived'],
+        description: 'Only return goals with this status (defaults to active)'
+      }
+    }
+  },
+  async execute(args, context) {
+    if (!context.userId) {
+      throw new Error('No user for this request')
+    }
+
+    const status = typeof args.status === 'string' ? args.status : 'active'
+    const { data, error } = await supabase
+      .from('user_goals')
+      .select('title, description, status, target_date, updated_at')
+      .eq('user_id', context.userId)
+      .eq('status', status)
+      .order('updated_at', { ascending: false })
+      .limit(MAX_GOALS)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return { goals: data || [] }
+  }
+}
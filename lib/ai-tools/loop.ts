@@ -0,0 +1,110 @@
+import {
+  addUsage,
+  streamWithFallback,
+  type FallbackStreamResult,
+  type Message,
+  type ProviderTarget,
+  type StreamCallbacks,
+  type StreamRequest,
+  type TokenUsage,
+  type ToolInvocation
+} from '../ai-providers'
+import { executeServerTool, getServerToolDefinitions } from './registry'
+import type { ServerToolResult, ToolContext } from './types'
+
+// Model -> tool -> model rounds allowed in one request
+const MAX_TOOL_ITERATIONS = 5
+
+export interface ToolLoopCallbacks extends StreamCallbacks {
+  onToolResult?: (result: ServerToolResult) => void
+}
+
+export interface ToolLoopResult extends FallbackStreamResult {
+  iterations: number
+}
+
+// Stream a response, running any server-side tool calls the model makes and
+// feeding their results back until it answers. Client tools still go out as
+// toolInvocation events, and a turn that calls one ends the loop so the app
+// can run it and continue with a tool-result round trip.
+export async function streamWithServerTools(
+  targets: ProviderTarget[],
+  request: Omit<StreamRequest, 'model'>,
+  serverToolNames: string[],
+  context: ToolContext,
+  callbacks: ToolLoopCallbacks
+): Promise<ToolLoopResult> {
+  const tools = [...(request.tools || []), ...getServerToolDefinitions(serverToolNames)]
+  const history: Message[] = [...request.previousMessages]
+  let message = request.message
+  let usage: TokenUsage | undefined
+  let result: FallbackStreamResult | undefined
+
+  for (let iteration = 1; iteration <= MAX_TOOL_ITERATIONS; iteration++) {
+    const textChunks: string[] = []
+    const serverCalls: ToolInvocation[] = []
+    const clientCalls: ToolInvocation[] = []
+
+    result = await streamWithFallback(
+      targets,
+      {
+        ...request,
+        message,
+        previousMessages: history,
+        tools,
+        // Images are attached to the user's message, which moves into history after the first round
+        imagesData: iteration === 1 ? request.imagesData : undefined
+      },
+      {
+        onChunk: (chunk) => {
+          textChunks.push(chunk)
+          return callbacks.onChunk?.(chunk)
+        },
+        onToolInvocation: (invocation) => {
+          // Only the tools enabled for this request run here, whatever the model names
+          if (serverToolNames.includes(invocation.toolName)) {
+            serverCalls.push(invocation)
+          } else {
+            clientCalls.push(invocation)
+            callbacks.onToolInvocation?.(invocation)
+          }
+        }
+      }
+    )
+    usage = addUsage(usage, result.usage)
+
+    if (result.finishReason === 'aborted' || result.finishReason === 'cancelled' || serverCalls.length === 0) {
+      return { ...result, usage, tokensUsed: usage?.totalTokens, iterations: iteration }
+    }
+
+    // Tool calls in one turn are independent, so run them side by side
+    const toolResults = await Promise.all(serverCalls.map(call => executeServerTool(call, context)))
+    toolResults.forEach(toolResult => callbacks.onToolResult?.(toolResult))
+
+    if (clientCalls.length > 0) {
+      return { ...result, usage, tokensUsed: usage?.totalTokens, iterations: iteration }
+    }
+
+    if (message.trim().length > 0) {
+      history.push({ role: 'user', content: message })
+    }
+    history.push({
+      role: 'assistant',
+      content: textChunks.join(''),
+      toolCalls: serverCalls.map(({ id, toolName, arguments: args }) => ({ id, toolName, arguments: args }))
+    })
+    for (const toolResult of toolResults) {
+      history.push({
+        role: 'tool',
+        content: toolResult.content,
+        toolCallId: toolResult.id,
+        toolName: toolResult.toolName,
+        isError: toolResult.isError
+      })
+    }
+    message = ''
+  }
+
+  console.warn(`⚠️ Server tool loop stopped after ${MAX_TOOL_ITERATIONS} iterations`)
+  return { ...result!, usage, tokensUsed: usage?.totalTokens, iterations: MAX_TOOL_ITERATIONS }
+}
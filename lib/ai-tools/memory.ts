@@ -0,0 +1,53 @@
+import { createClient } from '@supabase/supabase-js'
+import type { ServerTool } from './types'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const DEFAULT_MEMORY_RESULTS = 5
+const MAX_MEMORY_RESULTS = 20
+
+export const searchUserMemoryTool: ServerTool = {
+  name: 'search_user_memory',
+  description: 'Search things the user shared in earlier sessions (preferences, life events, past reflections). Returns the best matching memories.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Keywords describing what to look for'
+      },
+      limit: {
+        type: 'integer',
+        description: `Maximum memories to return (default ${DEFAULT_MEMORY_RESULTS}, max ${MAX_MEMORY_RESULTS})`
+      }
+    },
+    required: ['query']
+  },
+  async execute(args, context) {
+    if (!context.userId) {
+      throw new Error('No user for this request')
+    }
+    if (typeof args.query !== 'string' || args.query.trim().length === 0) {
+      throw new Error('query is required')
+    }
+
+    const limit = Math.min(Number(args.limit) || DEFAULT_MEMORY_RESULTS, MAX_MEMORY_RESULTS)
+    // Full-text search over the generated search_vector column
+    const { data, error } = await supabase
+      .from('user_memories')
+      .select('content, category, created_at')
+      .eq('user_id', context.userId)
+      .textSearch('search_vector', args.query, { type: 'websearch', config: 'english' })
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return { memories: data || [] }
+  }
+}
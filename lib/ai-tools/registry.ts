@@ -0,0 +1,60 @@
+import type { Tool, ToolCall } from '../ai-providers'
+import { getUserGoalsTool } from './goals'
+import { searchUserMemoryTool } from './memory'
+import { getUsageStatsTool } from './usage'
+import type { ServerTool, ServerToolResult, ToolContext } from './types'
+
+const DEFAULT_TOOL_TIMEOUT_MS = 5000
+
+const serverTools: Record<string, ServerTool> = Object.fromEntries(
+  [getUserGoalsTool, searchUserMemoryTool, getUsageStatsTool].map(tool => [tool.name, tool])
+)
+
+export function isServerTool(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(serverTools, name)
+}
+
+// Definitions in the OpenAI wrapped format, which every provider accepts
+export function getServerToolDefinitions(names: string[]): Tool[] {
+  return names.filter(isServerTool).map(name => ({
+    function: {
+      name,
+      description: serverTools[name].description,
+      parameters: serverTools[name].parameters
+    }
+  }))
+}
+
+// Run a tool call with its timeout. Failures are returned as error results so
+// the model can recover instead of the whole request failing.
+export async function executeServerTool(call: ToolCall, context: ToolContext): Promise<ServerToolResult> {
+  const tool = serverTools[call.toolName]
+  const timeoutMs = tool.timeoutMs || DEFAULT_TOOL_TIMEOUT_MS
+  const startTime = Date.now()
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  try {
+    const output = await Promise.race([
+      tool.execute(call.arguments, context),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Tool ${call.toolName} timed out after ${timeoutMs}ms`)), timeoutMs)
+      })
+    ])
+    return {
+      ...call,
+      content: JSON.stringify(output ?? null),
+      isError: false,
+      latencyMs: Date.now() - startTime
+    }
+  } catch (error) {
+    console.error(`Server tool ${call.toolName} failed:`, error)
+    return {
+      ...call,
+      content: error instanceof Error ? error.message : 'Tool failed',
+      isError: true,
+      latencyMs: Date.now() - startTime
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,25 @@
+// Shared types for the tools the gateway runs itself
+
+import type { JSONSchema, ToolCall } from '../ai-providers'
+
+// Who the tool is running for. userId is only ever a verified one (from the
+// request's access token), since the tools read that user's data.
+export interface ToolContext {
+  userId?: string
+  deviceId?: string
+}
+
+export interface ServerTool {
+  name: string
+  description: string
+  parameters: JSONSchema
+  timeoutMs?: number // Defaults to DEFAULT_TOOL_TIMEOUT_MS
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<unknown>
+}
+
+// Outcome of one server tool call, sent to the client as a toolResult event
+export interface ServerToolResult extends ToolCall {
+  content: string // JSON result or error message, as given back to the model
+  isError: boolean
+  latencyMs: number
+}
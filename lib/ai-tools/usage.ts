@@ -0,0 +1,58 @@
+import { createClient } from '@supabase/supabase-js'
+import type { ServerTool } from './types'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Keep in sync with the defaults in lib/rate-limit.ts
+const DEFAULT_VOICE_LIMIT = 3
+const DEFAULT_TEXT_LIMIT = 100
+
+export const getUsageStatsTool: ServerTool = {
+  name: 'get_usage_stats',
+  description: "Get today's usage for this device: text and voice sessions and image generations used, the daily limits and when they reset.",
+  parameters: {
+    type: 'object',
+    properties: {}
+  },
+  async execute(_args, context) {
+    if (!context.deviceId) {
+      throw new Error('No device for this request')
+    }
+
+    const [{ data: usage, error }, { data: settings }, { data: userLimit }] = await Promise.all([
+      supabase
+        .from('usage_limits')
+        .select('text_sessions_count, voice_sessions_count, image_generations_count, reset_at')
+        .eq('device_id', context.deviceId)
+        .maybeSingle(),
+      supabase
+        .from('global_settings')
+        .select('key, value')
+        .in('key', ['default_text_limit', 'default_voice_limit']),
+      context.userId
+        ? supabase
+            .from('user_limits')
+            .select('custom_rate_limit, custom_voice_limit')
+            .eq('user_id', context.userId)
+            .maybeSingle()
+        : Promise.resolve({ data: null })
+    ])
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const settingsMap = new Map(settings?.map(s => [s.key, parseInt(s.value)]) || [])
+    return {
+      textSessionsUsed: usage?.text_sessions_count || 0,
+      textSessionsLimit: userLimit?.custom_rate_limit ?? settingsMap.get('default_text_limit') ?? DEFAULT_TEXT_LIMIT,
+      voiceSessionsUsed: usage?.voice_sessions_count || 0,
+      voiceSessionsLimit: userLimit?.custom_voice_limit ?? settingsMap.get('default_voice_limit') ?? DEFAULT_VOICE_LIMIT,
+      imageGenerationsUsed: usage?.image_generations_count || 0,
+      resetsAt: usage?.reset_at || null
+    }
+  }
+}
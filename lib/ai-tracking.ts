@@ -0,0 +1,202 @@
+import { createClient } from '@supabase/supabase-js'
+import type { TokenUsage } from './ai-providers'
+import type { ExperimentRef } from './ai-experiments'
+import { calculateCost } from './ai-pricing'
+import type { PromptTemplateRef } from './prompt-templates'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Shared ai_interactions tracking for the gateway routes
+
+interface TrackingContext {
+  sessionId?: string
+  coachId?: string
+  featureName?: string
+  deviceId?: string
+}
+
+interface AIRequestEvent {
+  userId: string
+  provider: string
+  model: string
+  promptType?: string
+  messageLength: number
+  requestId: string
+  context?: TrackingContext
+  isByok?: boolean // Ran on the user's own provider key
+  promptTemplate?: PromptTemplateRef // Server-side system prompt, if one replaced the app's
+  experiment?: ExperimentRef // A/B experiment arm the request ran in
+}
+
+interface AIResponseEvent {
+  userId: string
+  provider: string
+  model: string
+  promptType?: string
+  responseLength: number
+  tokensUsed?: number
+  usage?: TokenUsage
+  latencyMs: number
+  timeToFirstTokenMs?: number // Until the first text chunk or tool call
+  fromCache: boolean
+  streamAborted?: boolean
+  cancelled?: boolean // Stopped through the cancel endpoint
+  requestedProvider?: string
+  requestedModel?: string
+  fallbackAttempts?: number
+  requestId: string
+  context?: TrackingContext
+  isByok?: boolean // Ran on the user's own provider key
+  promptTemplate?: PromptTemplateRef // Server-side system prompt, if one replaced the app's
+  experiment?: ExperimentRef // A/B experiment arm the request ran in
+}
+
+interface AIErrorEvent {
+  userId: string
+  provider: string
+  model: string
+  promptType?: string
+  errorMessage?: string
+  errorCode?: string
+  errorType?: string
+  stackTrace?: string
+  requestId: string
+  context?: TrackingContext
+  isByok?: boolean // Ran on the user's own provider key
+  promptTemplate?: PromptTemplateRef // Server-side system prompt, if one replaced the app's
+  experiment?: ExperimentRef // A/B experiment arm the request ran in
+}
+
+interface TTSUsageEvent {
+  userId?: string
+  provider: string
+  model: string
+  characters: number
+  requestId?: string
+  deviceId?: string
+}
+
+export async function trackAIRequest(data: AIRequestEvent) {
+  try {
+    await supabase.from('ai_interactions').insert({
+      user_id: data.userId,
+      provider: data.provider,
+      model: data.model,
+      prompt_type: data.promptType,
+      interaction_type: data.promptType || 'conversation',
+      message_length: data.messageLength,
+      cost_usd: 0, // Billed on the response row
+      request_id: data.requestId,
+      session_id: data.context?.sessionId,
+      coach_id: data.context?.coachId,
+      feature_name: data.context?.featureName,
+      device_id: data.context?.deviceId,
+      is_byok: data.isByok || false,
+      prompt_template_id: data.promptTemplate?.id,
+      prompt_template_version: data.promptTemplate?.version,
+      experiment_id: data.experiment?.experimentId,
+      experiment_arm_id: data.experiment?.armId,
+      status: 'pending',
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Failed to track AI request:', error)
+  }
+}
+
+export async function trackAIResponse(data: AIResponseEvent) {
+  try {
+    const costUsd = await calculateCost(data.model, { usage: data.usage })
+    await supabase.from('ai_interactions').insert({
+      user_id: data.userId,
+      provider: data.provider,
+      model: data.model,
+      prompt_type: data.promptType,
+      interaction_type: data.promptType || 'conversation',
+      response_length: data.responseLength,
+      tokens_used: data.tokensUsed,
+      input_tokens: data.usage?.inputTokens,
+      output_tokens: data.usage?.outputTokens,
+      cached_tokens: data.usage?.cachedTokens,
+      cache_write_tokens: data.usage?.cacheWriteTokens,
+      cost_usd: costUsd,
+      response_time_ms: data.latencyMs,
+      time_to_first_token_ms: data.timeToFirstTokenMs,
+      from_cache: data.fromCache,
+      stream_aborted: data.streamAborted || false,
+      requested_provider: data.requestedProvider,
+      requested_model: data.requestedModel,
+      fallback_attempts: data.fallbackAttempts || 0,
+      request_id: data.requestId,
+      session_id: data.context?.sessionId,
+      coach_id: data.context?.coachId,
+      feature_name: data.context?.featureName,
+      device_id: data.context?.deviceId,
+      is_byok: data.isByok || false,
+      prompt_template_id: data.promptTemplate?.id,
+      prompt_template_version: data.promptTemplate?.version,
+      experiment_id: data.experiment?.experimentId,
+      experiment_arm_id: data.experiment?.armId,
+      status: data.cancelled ? 'cancelled' : 'success',
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Failed to track AI response:', error)
+  }
+}
+
+export async function trackAIError(data: AIErrorEvent) {
+  try {
+    await supabase.from('ai_interactions').insert({
+      user_id: data.userId,
+      provider: data.provider,
+      model: data.model,
+      prompt_type: data.promptType,
+      interaction_type: data.promptType || 'conversation',
+      error_message: data.errorMessage,
+      error_code: data.errorCode,
+      error_category: data.errorType,
+      stack_trace: data.stackTrace,
+      cost_usd: 0, // Failed upstream calls are not billed
+      request_id: data.requestId,
+      session_id: data.context?.sessionId,
+      coach_id: data.context?.coachId,
+      feature_name: data.context?.featureName,
+      device_id: data.context?.deviceId,
+      is_byok: data.isByok || false,
+      prompt_template_id: data.promptTemplate?.id,
+      prompt_template_version: data.promptTemplate?.version,
+      experiment_id: data.experiment?.experimentId,
+      experiment_arm_id: data.experiment?.armId,
+      status: 'error',
+      timestamp: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Failed to track AI error to Supabase:', error)
+  }
+}
+
+// Speech synthesized as part of a gateway response (the TTS routes log their own rows)
+export async function trackTTSUsage(data: TTSUsageEvent) {
+  try {
+    await supabase.from('ai_interactions').insert({
+      user_id: data.userId || 'anonymous',
+      provider: data.provider,
+      model: data.model,
+      interaction_type: 'tts',
+      status: 'success',
+      prompt_type: 'tts',
+      message_length: data.characters,
+      cost_usd: await calculateCost(data.model, { characters: data.characters }),
+      request_id: data.requestId,
+      device_id: data.deviceId,
+      event_type: 'tts_request',
+      created_at: new Date().toISOString()
+    })
+  } catch (error) {
+    console.error('Failed to track TTS usage:', error)
+  }
+}
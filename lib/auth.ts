@@ -0,0 +1,28 @@
+import type { IncomingMessage } from 'http'
+import { createClient } from '@supabase/supabase-js'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Supabase access tokens sent as Authorization: Bearer. Routes that need a
+// signed-in user reject 'missing'; the public gateway accepts requests without
+// a token, but only trusts a user id that a token proves.
+export type BearerAuth =
+  | { status: 'verified'; userId: string }
+  | { status: 'missing' }
+  | { status: 'invalid' }
+
+export async function verifyBearerToken(req: IncomingMessage): Promise<BearerAuth> {
+  const authHeader = req.headers.authorization
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return { status: 'missing' }
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.substring(7))
+  if (error || !user) {
+    return { status: 'invalid' }
+  }
+  return { status: 'verified', userId: user.id }
+}
@@ -0,0 +1,224 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createHash } from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import { getClientIP } from './rate-limit'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Idempotency-Key support for routes that charge quota or cost us money.
+// The first request with a key claims it in idempotency_keys and stores its
+// response; a retry with the same key gets that response (or waits for the
+// in-flight one) instead of running the work, and the quota, a second time.
+// Keys are scoped to the client that sent them (user/device, else IP), so
+// another client reusing a key can never be served this client's response.
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours
+const IN_PROGRESS_POLL_INTERVAL_MS = 500
+const IN_PROGRESS_MAX_WAIT_MS = 60000
+const MAX_KEY_LENGTH = 255
+
+export interface StoredResponse {
+  status: number
+  body: unknown // JSON body, or base64 for binary content types
+  contentType?: string // Defaults to application/json
+}
+
+export interface IdempotentRequest {
+  complete(response?: StoredResponse): Promise<void> // Omit the response when a retry can attach another way (SSE replay)
+  release(): Promise<void> // Frees the key so a retry runs again; no-op once completed
+}
+
+// The ids the route knows the client by
+export interface IdempotencyOwner {
+  userId?: string
+  deviceId?: string
+}
+
+interface IdempotencyOptions {
+  owner?: IdempotencyOwner // Without user or device ids the key is scoped to the client's IP
+  ttlMs?: number
+  requestId?: string // Stored so a retry can attach to the running request
+  // Serve a retry whose original has no stored body yet. Return false if it can't.
+  attach?: (requestId: string) => Promise<boolean>
+}
+
+interface IdempotencyRow {
+  request_hash: string
+  request_id: string | null
+  status: 'in_progress' | 'completed'
+  response_status: number | null
+  response_body: unknown
+  response_content_type: string | null
+}
+
+const NOOP_REQUEST: IdempotentRequest = {
+  complete: async () => {},
+  release: async () => {}
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function hashRequestBody(req: NextApiRequest): string {
+  return createHash('sha256').update(JSON.stringify(req.body ?? {})).digest('hex')
+}
+
+function ownerScope(req: NextApiRequest, owner?: IdempotencyOwner): string {
+  if (owner?.userId || owner?.deviceId) {
+    return `user:${owner.userId || ''}|device:${owner.deviceId || ''}`
+  }
+  return `ip:${getClientIP(req)}`
+}
+
+function sendStoredResponse(res: NextApiResponse, row: IdempotencyRow) {
+  const status = row.response_status || 200
+  res.setHeader('Idempotent-Replayed', 'true')
+  if (!row.response_content_type || row.response_content_type === 'application/json') {
+    res.status(status).json(row.response_body)
+  } else {
+    res.setHeader('Content-Type', row.response_content_type)
+    res.status(status).send(Buffer.from(String(row.response_body), 'base64'))
+  }
+}
+
+async function fetchRow(route: string, scope: string, key: string): Promise<IdempotencyRow | null> {
+  const { data } = await supabase
+    .from('idempotency_keys')
+    .select('request_hash, request_id, status, response_status, response_body, response_content_type')
+    .eq('route', route)
+    .eq('scope', scope)
+    .eq('idempotency_key', key)
+    .maybeSingle()
+  return data as IdempotencyRow | null
+}
+
+// Claim the request's Idempotency-Key for this route and client. Returns 'handled' when
+// the response has already been sent: the earlier request's result, or an
+// error about the key. Requests without the header get a no-op handle.
+export async function startIdempotentRequest(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  route: string,
+  options: IdempotencyOptions = {}
+): Promise<IdempotentRequest | 'handled'> {
+  const header = req.headers['idempotency-key']
+  const key = typeof header === 'string' ? header.trim() : ''
+  if (!key) {
+    return NOOP_REQUEST
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` })
+    return 'handled'
+  }
+
+  const scope = ownerScope(req, options.owner)
+  const requestHash = hashRequestBody(req)
+  const now = new Date()
+
+  // Expired keys can be reused
+  try {
+    await supabase.from('idempotency_keys').delete().lt('expires_at', now.toISOString())
+  } catch (error) {
+    console.error('Failed to clean up idempotency keys:', error)
+  }
+
+  const { error: claimError } = await supabase.from('idempotency_keys').insert({
+    route,
+    scope,
+    idempotency_key: key,
+    request_hash: requestHash,
+    request_id: options.requestId,
+    status: 'in_progress',
+    created_at: now.toISOString(),
+    expires_at: new Date(now.getTime() + (options.ttlMs ?? DEFAULT_TTL_MS)).toISOString()
+  })
+
+  if (!claimError) {
+    let isSettled = false
+    return {
+      complete: async (response) => {
+        if (isSettled) return
+        isSettled = true
+        const { error } = await supabase
+          .from('idempotency_keys')
+          .update({
+            status: 'completed',
+            response_status: response?.status,
+            response_body: response?.body,
+            response_content_type: response?.contentType
+          })
+          .eq('route', route)
+          .eq('scope', scope)
+          .eq('idempotency_key', key)
+        if (error) {
+          console.error('Failed to store idempotent response:', error)
+        }
+      },
+      release: async () => {
+        if (isSettled) return
+        isSettled = true
+        const { error } = await supabase
+          .from('idempotency_keys')
+          .delete()
+          .eq('route', route)
+          .eq('scope', scope)
+          .eq('idempotency_key', key)
+        if (error) {
+          console.error('Failed to release idempotency key:', error)
+        }
+      }
+    }
+  }
+
+  // Anything but a duplicate key means the table is unavailable - run the request anyway
+  if (claimError.code !== '23505') {
+    console.error('Failed to claim idempotency key:', claimError)
+    return NOOP_REQUEST
+  }
+
+  let row = await fetchRow(route, scope, key)
+  if (row && row.request_hash !== requestHash) {
+    res.status(422).json({ error: 'Idempotency-Key was already used for a different request' })
+    return 'handled'
+  }
+
+  console.log(`🔑 Repeated Idempotency-Key on ${route}, reusing the original request`)
+  if (row?.status === 'in_progress' && row.request_id && options.attach) {
+    if (await options.attach(row.request_id)) {
+      return 'handled'
+    }
+  }
+
+  // Wait for the original request to store its response
+  const startTime = Date.now()
+  while (row?.status === 'in_progress' && Date.now() - startTime < IN_PROGRESS_MAX_WAIT_MS) {
+    await sleep(IN_PROGRESS_POLL_INTERVAL_MS)
+    row = await fetchRow(route, scope, key)
+  }
+
+  if (row?.status === 'completed' && row.response_status) {
+    sendStoredResponse(res, row)
+    return 'handled'
+  }
+  if (row?.status === 'completed' && row.request_id && options.attach) {
+    if (await options.attach(row.request_id)) {
+      return 'handled'
+    }
+  }
+
+  if (!row) {
+    // The original failed and released the key - retry under the same key
+    return startIdempotentRequest(req, res, route, options)
+  }
+  res.status(409).json({
+    error: row.status === 'in_progress'
+      ? 'A request with this Idempotency-Key is still in progress'
+      : 'The result for this Idempotency-Key is no longer available',
+    details: 'Retry later, or use a new Idempotency-Key to run the request again'
+  })
+  return 'handled'
+}
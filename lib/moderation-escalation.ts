@@ -0,0 +1,279 @@
+import { createClient } from '@supabase/supabase-js'
+import type { ModerationAction } from './moderation'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Automatic bans built on the moderation log. After each flagged request the
+// rules in global_settings (moderation_escalation_policy) are checked against
+// the subject's recent moderation_events; the first rule that matches bans the
+// user, device and/or IP through the banned_* tables. Every action is written
+// to moderation_actions, which an admin can review and reverse
+// (GET and POST /api/moderation-actions, or reverse_moderation_action in SQL).
+// User and device bans need a user verified by an access token - anyone can put
+// someone else's ids in a request body - so anonymous senders are counted and
+// banned by IP instead.
+
+const HOUR_MS = 60 * 60 * 1000
+const BANNED_BY = 'moderation-escalation'
+const MAX_COUNTED_EVENTS = 200
+
+export type BanType = 'user' | 'device' | 'ip'
+
+export interface EscalationSubject {
+  userId?: string // Only a user id verified by an access token
+  deviceId?: string
+  clientIP?: string
+}
+
+export interface AutomaticAction {
+  id: string
+  ruleId: string
+  banTypes: BanType[]
+  expiresAt: string | null // null = permanent
+}
+
+interface EscalationRule {
+  id: string
+  events: number // Distinct flagged messages needed...
+  windowHours: number // ...within this many hours
+  eventActions: ModerationAction[] // Which moderation_events count
+  afterTemporaryBan?: number // Only within this many days of a temporary ban that wasn't reversed
+  ban: BanType[]
+  durationHours: number | null // null = permanent
+}
+
+interface EscalationPolicy {
+  enabled: boolean
+  rules: EscalationRule[] // Checked in order; the first match fires
+}
+
+// Used when global_settings has no moderation_escalation_policy entry
+const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  enabled: true,
+  rules: [
+    {
+      id: 'repeat-after-temporary-ban',
+      events: 3,
+      windowHours: 24,
+      eventActions: ['block'],
+      afterTemporaryBan: 30,
+      ban: ['user', 'device', 'ip'],
+      durationHours: null
+    },
+    {
+      id: 'repeated-blocked-messages',
+      events: 3,
+      windowHours: 24,
+      eventActions: ['block'],
+      ban: ['device'],
+      durationHours: 24
+    }
+  ]
+}
+
+async function getEscalationPolicy(): Promise<EscalationPolicy> {
+  try {
+    const { data } = await supabase
+      .from('global_settings')
+      .select('value')
+      .eq('key', 'moderation_escalation_policy')
+      .single()
+
+    if (data?.value) {
+      return { ...DEFAULT_ESCALATION_POLICY, ...JSON.parse(data.value) }
+    }
+  } catch (error) {
+    console.error('Failed to fetch moderation escalation policy:', error)
+  }
+  return DEFAULT_ESCALATION_POLICY
+}
+
+const BAN_TABLES: Record<BanType, { table: string; column: string }> = {
+  user: { table: 'banned_users', column: 'user_id' },
+  device: { table: 'banned_devices', column: 'device_id' },
+  ip: { table: 'banned_ips', column: 'ip_address' }
+}
+
+function banTarget(type: BanType, subject: EscalationSubject): string | undefined {
+  switch (type) {
+    case 'user':
+      return subject.userId
+    case 'device':
+      // Only a device that came with a verified user
+      return subject.userId && subject.deviceId && subject.deviceId !== 'unknown' ? subject.deviceId : undefined
+    case 'ip':
+      return subject.clientIP && subject.clientIP !== 'unknown' ? subject.clientIP : undefined
+  }
+}
+
+// A target is skipped when it is already banned for at least as long as the
+// rule would ban it, so an admin's ban is never shortened or taken over
+async function isAlreadyBanned(type: BanType, target: string, expiresAt: string | null): Promise<boolean> {
+  const { table, column } = BAN_TABLES[type]
+  const { data } = await supabase
+    .from(table)
+    .select('expires_at')
+    .eq(column, target)
+    .maybeSingle()
+
+  if (!data) return false
+  if (data.expires_at === null) return true
+  return expiresAt !== null && new Date(data.expires_at) >= new Date(expiresAt)
+}
+
+async function applyRule(
+  rule: EscalationRule,
+  subject: EscalationSubject,
+  eventIds: string[]
+): Promise<AutomaticAction | null> {
+  const now = new Date()
+  const expiresAt = rule.durationHours === null ? null : new Date(now.getTime() + rule.durationHours * HOUR_MS).toISOString()
+
+  // Without a verified user the IP is all that can be trusted
+  const banTypes: BanType[] = subject.userId ? rule.ban : ['ip']
+  const targets: Array<{ type: BanType; target: string }> = []
+  for (const type of banTypes) {
+    const target = banTarget(type, subject)
+    if (target && !(await isAlreadyBanned(type, target, expiresAt))) {
+      targets.push({ type, target })
+    }
+  }
+  if (targets.length === 0) {
+    return null
+  }
+
+  const reason = `Automatic ${expiresAt ? `${rule.durationHours}h` : 'permanent'} ban (${rule.id}): ` +
+    `${eventIds.length} flagged messages within ${rule.windowHours}h`
+
+  const { data: action, error } = await supabase
+    .from('moderation_actions')
+    .insert({
+      rule_id: rule.id,
+      user_id: subject.userId || null,
+      device_id: subject.deviceId || null,
+      ip_address: subject.clientIP || null,
+      ban_types: targets.map(t => t.type),
+      expires_at: expiresAt,
+      reason,
+      moderation_event_ids: eventIds,
+      created_at: now.toISOString()
+    })
+    .select('id')
+    .single()
+
+  if (error || !action) {
+    throw new Error(`Failed to record moderation action: ${error?.message}`)
+  }
+
+  const banned: BanType[] = []
+  for (const { type, target } of targets) {
+    const { table, column } = BAN_TABLES[type]
+    const { error: banError } = await supabase
+      .from(table)
+      .upsert({
+        [column]: target,
+        reason,
+        banned_at: now.toISOString(),
+        banned_by: BANNED_BY,
+        expires_at: expiresAt,
+        moderation_action_id: action.id,
+        updated_at: now.toISOString()
+      }, { onConflict: column })
+
+    if (banError) {
+      console.error(`Failed to ban ${type} ${target}:`, banError)
+    } else {
+      banned.push(type)
+    }
+  }
+
+  // Keep the audit log accurate if some of the bans couldn't be written
+  if (banned.length < targets.length) {
+    await supabase.from('moderation_actions').update({ ban_types: banned }).eq('id', action.id)
+  }
+
+  console.log(`⛔ Moderation escalation ${rule.id}: banned ${banned.join(', ') || 'nothing'} ` +
+    `(user ${subject.userId || 'unknown'}, device ${subject.deviceId || 'unknown'}) until ${expiresAt || 'revoked'}`)
+  return banned.length > 0 ? { id: action.id, ruleId: rule.id, banTypes: banned, expiresAt } : null
+}
+
+// Check the rules for a subject whose new message was just flagged and logged, and
+// ban them if one matches. Never throws: a failure here leaves the ban to an admin.
+export async function escalateModeration(subject: EscalationSubject): Promise<AutomaticAction | null> {
+  // Signed-in users are judged across devices; anonymous requests by IP
+  const column = subject.userId ? 'user_id' : 'ip_address'
+  const value = subject.userId || (subject.clientIP !== 'unknown' ? subject.clientIP : undefined)
+  if (!value) {
+    return null
+  }
+
+  const policy = await getEscalationPolicy()
+  if (!policy.enabled || policy.rules.length === 0) {
+    return null
+  }
+
+  try {
+    // Events before the latest action (reversed or not) have been dealt with
+    const { data: lastAction } = await supabase
+      .from('moderation_actions')
+      .select('created_at')
+      .eq(column, value)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data: temporaryBan } = await supabase
+      .from('moderation_actions')
+      .select('created_at')
+      .eq(column, value)
+      .eq('status', 'active')
+      .not('expires_at', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const now = Date.now()
+    for (const rule of policy.rules) {
+      if (rule.afterTemporaryBan !== undefined) {
+        if (!temporaryBan || new Date(temporaryBan.created_at).getTime() < now - rule.afterTemporaryBan * 24 * HOUR_MS) {
+          continue
+        }
+      }
+
+      const windowStart = now - rule.windowHours * HOUR_MS
+      const since = new Date(lastAction ? Math.max(windowStart, new Date(lastAction.created_at).getTime()) : windowStart)
+      // Only new messages (not flags found in the history) count, and sending
+      // the same text again is still one flagged message
+      const { data: events, error } = await supabase
+        .from('moderation_events')
+        .select('id, content_hash')
+        .eq(column, value)
+        .eq('is_history', false)
+        .in('action', rule.eventActions)
+        .gt('created_at', since.toISOString())
+        .order('created_at', { ascending: false })
+        .limit(MAX_COUNTED_EVENTS)
+
+      if (error) {
+        throw new Error(`Failed to count moderation events: ${error.message}`)
+      }
+      const distinctEvents = new Map<string, string>()
+      for (const event of events || []) {
+        if (!distinctEvents.has(event.content_hash)) {
+          distinctEvents.set(event.content_hash, event.id)
+        }
+      }
+      if (distinctEvents.size < rule.events) {
+        continue
+      }
+
+      return await applyRule(rule, subject, [...distinctEvents.values()])
+    }
+  } catch (error) {
+    console.error('Moderation escalation failed:', error)
+  }
+  return null
+}
@@ -0,0 +1,296 @@
+import { createHash } from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import type { Message } from './ai-providers'
+import { escalateModeration } from './moderation-escalation'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Input moderation before a request reaches a provider. The user's message and
+// their most recent earlier messages are checked with OpenAI's moderation API,
+// or with local patterns when it can't be reached. Flagged input is logged to
+// moderation_events; the policy in global_settings (moderation_policy) decides
+// per category whether to block the request or let it through with a warning.
+// Repeat offenders are banned automatically (see moderation-escalation.ts).
+
+const MODERATION_TIMEOUT_MS = 3000 // Fall back to the local patterns rather than hold up the answer
+const MAX_LOGGED_CHARS = 2000
+
+export type ModerationAction = 'allow' | 'warn' | 'block'
+
+export interface ModerationResult {
+  action: ModerationAction
+  categories: string[] // Flagged categories (OpenAI's names, e.g. "hate/threatening")
+  source?: 'openai' | 'local' // Unset when moderation was skipped
+}
+
+export interface ModerationInput {
+  message: string
+  previousMessages: Message[]
+  requestId: string
+  promptType?: string
+  userId?: string // Only a user id verified by an access token - automatic bans trust it
+  deviceId?: string
+  clientIP?: string
+}
+
+interface ModerationPolicy {
+  enabled: boolean
+  block: string[] // Categories that reject the request
+  warn: string[] // Categories that let it through with a moderation event
+  recentMessages: number // Earlier user messages checked along with the new one
+  flagUserOnBlock: boolean // Set user_limits.is_flagged when a request is blocked
+  exemptPromptTypes: string[] // Background jobs built from the user's own data
+}
+
+// Used when global_settings has no moderation_policy entry
+const DEFAULT_MODERATION_POLICY: ModerationPolicy = {
+  enabled: true,
+  block: ['hate', 'hate/threatening', 'harassment/threatening', 'sexual/minors', 'illicit/violent'],
+  // Self-harm is never blocked - a coaching conversation is where it should be answered with care
+  warn: ['harassment', 'violence', 'violence/graphic', 'self-harm', 'self-harm/intent', 'self-harm/instructions'],
+  recentMessages: 4,
+  flagUserOnBlock: false,
+  exemptPromptTypes: ['dailyMetrics', 'dailyBoosts', 'summarizeConversation', 'extractActionItems']
+}
+
+async function getModerationPolicy(): Promise<ModerationPolicy> {
+  try {
+    const { data } = await supabase
+      .from('global_settings')
+      .select('value')
+      .eq('key', 'moderation_policy')
+      .single()
+
+    if (data?.value) {
+      return { ...DEFAULT_MODERATION_POLICY, ...JSON.parse(data.value) }
+    }
+  } catch (error) {
+    console.error('Failed to fetch moderation policy:', error)
+  }
+  return DEFAULT_MODERATION_POLICY
+}
+
+// Offline fallback. Deliberately narrow: only the clearest cases, since a
+// false positive here blocks a real conversation.
+const LOCAL_PATTERNS: Array<{ category: string; pattern: RegExp }> = [
+  { category: 'hate', pattern: /\bn+[i1!|]+[gq]{2,}(?:[e3]+r+|[a@]+h?|u+h)s?\b/i },
+  { category: 'hate', pattern: /\bf+[a@4]+g{1,2}(?:[o0]+t+)?s?\b/i },
+  { category: 'hate', pattern: /\b(?:k[i1y]ke|ch[i1]nk|sp[i1]c|tr[a@]nn(?:y|ie)|r[e3]t[a@]rd)s?\b/i },
+  { category: 'harassment/threatening', pattern: /\bi(?:'m| am)?\s+(?:going to|gonna|will)\s+(?:kill|murder|shoot|stab|rape)\s+(?:you|u|him|her|them)\b/i },
+  { category: 'self-harm/intent', pattern: /\b(?:kill(?:ing)? myself|end(?:ing)? my (?:own )?life|want to die|cut(?:ting)? myself)\b/i },
+  { category: 'sexual/minors', pattern: /\b(?:child|kid|underage|preteen)\s*porn/i }
+]
+
+interface ClassifiedInput {
+  categories: string[] // Empty when the input wasn't flagged
+  scores?: Record<string, number>
+}
+
+interface Classification {
+  source: 'openai' | 'local'
+  results: ClassifiedInput[] // Same order as the inputs
+}
+
+function classifyLocally(inputs: string[]): Classification {
+  return {
+    source: 'local',
+    results: inputs.map(input => ({
+      categories: [...new Set(LOCAL_PATTERNS.filter(({ pattern }) => pattern.test(input)).map(({ category }) => category))]
+    }))
+  }
+}
+
+async function classifyWithOpenAI(inputs: string[]): Promise<Classification> {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    throw new Error('OpenAI API key not configured')
+  }
+
+  const response = await fetch('https://api.openai.com/v1/moderations', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ model: 'omni-moderation-latest', input: inputs }),
+    signal: AbortSignal.timeout(MODERATION_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    throw new Error(`OpenAI moderation error: ${response.status} ${response.statusText}`)
+  }
+
+  const data: {
+    results: Array<{ flagged: boolean; categories: Record<string, boolean>; category_scores: Record<string, number> }>
+  } = await response.json()
+
+  return {
+    source: 'openai',
+    results: data.results.map(result => ({
+      categories: Object.keys(result.categories).filter(category => result.categories[category]),
+      scores: result.category_scores
+    }))
+  }
+}
+
+interface ModeratedInput extends ClassifiedInput {
+  text: string
+  hash: string
+  isHistory: boolean // From previousMessages rather than the new message
+}
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text.trim()).digest('hex')
+}
+
+function actionFor(categories: string[], policy: ModerationPolicy): ModerationAction {
+  if (categories.some(c => policy.block.includes(c))) return 'block'
+  if (categories.some(c => policy.warn.includes(c))) return 'warn'
+  return 'allow'
+}
+
+// Actions already logged for these inputs for this user (or device), by hash.
+// A flagged message stays in the history the client sends back, and would
+// otherwise be judged - and counted towards automatic bans - again on every later turn.
+async function findLoggedActions(input: ModerationInput, hashes: string[]): Promise<Map<string, ModerationAction[]>> {
+  const logged = new Map<string, ModerationAction[]>()
+  const column = input.userId ? 'user_id' : 'device_id'
+  const value = input.userId || input.deviceId
+  if (!value || hashes.length === 0) {
+    return logged
+  }
+  try {
+    const { data, error } = await supabase
+      .from('moderation_events')
+      .select('content_hash, action')
+      .eq(column, value)
+      .in('content_hash', hashes)
+    if (error) {
+      throw new Error(error.message)
+    }
+    for (const row of data || []) {
+      logged.set(row.content_hash, [...(logged.get(row.content_hash) || []), row.action])
+    }
+  } catch (error) {
+    console.error('Failed to look up moderated history:', error)
+  }
+  return logged
+}
+
+async function logModerationEvents(
+  input: ModerationInput,
+  source: Classification['source'],
+  flagged: ModeratedInput[],
+  policy: ModerationPolicy
+) {
+  try {
+    await supabase.from('moderation_events').insert(flagged.map(item => ({
+      user_id: input.userId || null,
+      device_id: input.deviceId || null,
+      ip_address: input.clientIP || null,
+      request_id: input.requestId,
+      prompt_type: input.promptType,
+      action: actionFor(item.categories, policy),
+      source,
+      categories: item.categories,
+      category_scores: item.scores || null,
+      content: item.text.slice(0, MAX_LOGGED_CHARS),
+      content_hash: item.hash,
+      is_history: item.isHistory,
+      created_at: new Date().toISOString()
+    })))
+  } catch (error) {
+    console.error('Failed to log moderation events:', error)
+  }
+}
+
+async function flagUser(userId: string, categories: string[]) {
+  try {
+    await supabase.from('user_limits').upsert({
+      user_id: userId,
+      is_flagged: true,
+      flag_reason: `Blocked by moderation: ${categories.join(', ')}`,
+      flagged_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' })
+    console.log(`🚩 Flagged user ${userId} after a blocked message`)
+  } catch (error) {
+    console.error('Failed to flag user:', error)
+  }
+}
+
+// Check the user's input and decide what happens to the request. Never throws:
+// when neither check can run the request is allowed.
+export async function moderateInput(input: ModerationInput): Promise<ModerationResult> {
+  const policy = await getModerationPolicy()
+  if (!policy.enabled || (input.promptType && policy.exemptPromptTypes.includes(input.promptType))) {
+    return { action: 'allow', categories: [] }
+  }
+
+  // Only what the user wrote - assistant turns are ours and system prompts come from the app.
+  // Each distinct text is checked once; a repeat of the new message counts as the new message.
+  const inputs = new Map<string, { text: string; isHistory: boolean }>()
+  input.previousMessages
+    .filter(m => m.role === 'user' && m.content.trim().length > 0)
+    .slice(-policy.recentMessages)
+    .forEach(m => inputs.set(contentHash(m.content), { text: m.content, isHistory: true }))
+  if (input.message.trim().length > 0) {
+    inputs.set(contentHash(input.message), { text: input.message, isHistory: false })
+  }
+  if (inputs.size === 0) {
+    return { action: 'allow', categories: [] }
+  }
+
+  const entries = [...inputs.entries()]
+  const texts = entries.map(([, { text }]) => text)
+  let classification: Classification
+  try {
+    classification = await classifyWithOpenAI(texts)
+  } catch (error) {
+    console.warn('⚠️ OpenAI moderation unavailable, using local patterns:', (error as Error).message)
+    classification = classifyLocally(texts)
+  }
+
+  const flagged: ModeratedInput[] = entries
+    .map(([hash, item], index) => ({ ...item, hash, ...classification.results[index] }))
+    .filter(item => item.categories.length > 0)
+
+  // Earlier messages that were already judged aren't logged or counted again.
+  // One that was blocked is still blocked - the client resending it in the
+  // history mustn't get it to the provider - while earlier warnings let it through.
+  const history = flagged.filter(item => item.isHistory)
+  const loggedActions = await findLoggedActions(input, history.map(item => item.hash))
+  const stillBlocked = history.filter(item => loggedActions.get(item.hash)?.includes('block'))
+  const newlyFlagged = flagged.filter(item => !item.isHistory || !loggedActions.has(item.hash))
+  if (newlyFlagged.length === 0 && stillBlocked.length === 0) {
+    return { action: 'allow', categories: [], source: classification.source }
+  }
+
+  const newCategories = [...new Set(newlyFlagged.flatMap(item => item.categories))]
+  const newAction = actionFor(newCategories, policy)
+  const categories = [...new Set([...newCategories, ...stillBlocked.flatMap(item => item.categories)])]
+  const action = stillBlocked.length > 0 ? 'block' : newAction
+  console.log(`🛡️ Moderation ${action} (${classification.source}): ${categories.join(', ')} - request ${input.requestId}`)
+
+  if (newlyFlagged.length > 0) {
+    await logModerationEvents(input, classification.source, newlyFlagged, policy)
+  }
+  if (newAction === 'block' && policy.flagUserOnBlock && input.userId) {
+    await flagUser(input.userId, newCategories)
+  }
+
+  // Only a newly flagged message counts towards automatic bans, so a history
+  // flag can't be what gets the sender banned
+  const automaticAction = newlyFlagged.some(item => !item.isHistory)
+    ? await escalateModeration({ userId: input.userId, deviceId: input.deviceId, clientIP: input.clientIP })
+    : null
+  // A request that gets its sender banned isn't answered either
+  return {
+    action: automaticAction ? 'block' : action,
+    categories,
+    source: classification.source
+  }
+}
@@ -0,0 +1,180 @@
+import { createClient } from '@supabase/supabase-js'
+import type { Message } from './ai-providers'
+// Not the index, which loads context.ts - and context.ts uses this module
+import { HISTORY_SUMMARY_PREFIX } from './ai-providers/messages'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Server-side system prompts (prompt_templates). The active template for a
+// promptType - or for a promptType and coach - replaces the system prompt the
+// app sent, so a prompt can be fixed without an App Store release. Without a
+// template the app's own prompt is used as before.
+
+// Short, so a published fix is live within a minute
+const TEMPLATE_CACHE_TTL = 60 * 1000
+
+export interface PromptTemplate {
+  id: string
+  promptType: string
+  coachId: string | null
+  version: number
+  content: string
+}
+
+// What ai_interactions records about the template a request used
+export interface PromptTemplateRef {
+  id: string
+  version: number
+}
+
+export type PromptVariables = Record<string, string | number | boolean>
+
+export interface AppliedPromptTemplate {
+  previousMessages: Message[]
+  template?: PromptTemplateRef
+}
+
+interface PromptTemplateRow {
+  id: string
+  prompt_type: string
+  coach_id: string | null
+  version: number
+  content: string
+}
+
+let templateCache: { templates: PromptTemplate[]; timestamp: number } | null = null
+const templateByIdCache = new Map<string, { template: PromptTemplate | null; timestamp: number }>()
+
+function toPromptTemplate(row: PromptTemplateRow): PromptTemplate {
+  return {
+    id: row.id,
+    promptType: row.prompt_type,
+    coachId: row.coach_id,
+    version: row.version,
+    content: row.content
+  }
+}
+
+async function getActiveTemplates(): Promise<PromptTemplate[]> {
+  if (templateCache && Date.now() - templateCache.timestamp < TEMPLATE_CACHE_TTL) {
+    return templateCache.templates
+  }
+
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('id, prompt_type, coach_id, version, content')
+    .eq('is_active', true)
+
+  if (error) {
+    throw error
+  }
+
+  const templates = ((data || []) as PromptTemplateRow[]).map(toPromptTemplate)
+  templateCache = { templates, timestamp: Date.now() }
+  return templates
+}
+
+// A specific version, active or not (experiment arms pin one)
+async function getTemplateById(id: string): Promise<PromptTemplate | null> {
+  const cached = templateByIdCache.get(id)
+  if (cached && Date.now() - cached.timestamp < TEMPLATE_CACHE_TTL) {
+    return cached.template
+  }
+
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select('id, prompt_type, coach_id, version, content')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  const template = data ? toPromptTemplate(data as PromptTemplateRow) : null
+  templateByIdCache.set(id, { template, timestamp: Date.now() })
+  return template
+}
+
+// The pinned version if there is one, else the coach's own active template,
+// then the active one for every coach
+export async function resolvePromptTemplate(
+  promptType?: string,
+  coachId?: string,
+  templateId?: string
+): Promise<PromptTemplate | null> {
+  if (!promptType) {
+    return null
+  }
+  try {
+    const pinned = templateId ? await getTemplateById(templateId) : null
+    if (pinned) {
+      return pinned
+    }
+    const templates = (await getActiveTemplates()).filter(t => t.promptType === promptType)
+    return (coachId && templates.find(t => t.coachId === coachId)) ||
+      templates.find(t => t.coachId === null) ||
+      null
+  } catch (error) {
+    // Fall back to the app's prompt rather than failing the request
+    console.error('Failed to load prompt templates:', error)
+    return null
+  }
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g
+
+// Replace {{name}} placeholders. Missing variables render as an empty string
+// so an older app build that doesn't send one still gets a usable prompt.
+export function renderPromptTemplate(content: string, variables: PromptVariables): string {
+  const missing = new Set<string>()
+  const rendered = content.replace(VARIABLE_PATTERN, (_, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      missing.add(name)
+      return ''
+    }
+    return String(variables[name])
+  })
+  if (missing.size > 0) {
+    console.warn(`⚠️ Prompt template variables not provided: ${[...missing].join(', ')}`)
+  }
+  return rendered
+}
+
+export function isPromptVariables(value: unknown): value is PromptVariables {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(v => ['string', 'number', 'boolean'].includes(typeof v))
+}
+
+// System messages the app sent, as opposed to compacted history summaries
+export function isAppSystemPrompt(message: Message): boolean {
+  return message.role === 'system' && !message.content.startsWith(HISTORY_SUMMARY_PREFIX)
+}
+
+// Swap the app's system prompt for the rendered template. The app's prompt is
+// still available to the template as {{appPrompt}}, and compacted history
+// summaries are kept where they are.
+export async function applyPromptTemplate(
+  previousMessages: Message[],
+  options: { promptType?: string; coachId?: string; variables?: PromptVariables; templateId?: string }
+): Promise<AppliedPromptTemplate> {
+  const template = await resolvePromptTemplate(options.promptType, options.coachId, options.templateId)
+  if (!template) {
+    return { previousMessages }
+  }
+
+  const appPrompt = previousMessages.filter(isAppSystemPrompt).map(m => m.content).join('\n\n')
+  const content = renderPromptTemplate(template.content, {
+    date: new Date().toISOString().slice(0, 10),
+    ...options.variables,
+    appPrompt
+  })
+
+  return {
+    previousMessages: [{ role: 'system', content }, ...previousMessages.filter(m => !isAppSystemPrompt(m))],
+    template: { id: template.id, version: template.version }
+  }
+}
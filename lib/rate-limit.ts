@@ -0,0 +1,382 @@
+import type { NextApiRequest } from 'next'
+import { createClient } from '@supabase/supabase-js'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Bans and daily session limits (usage_limits) for the gateway routes
+
+// Rate limiting defaults (will be overridden by database values)
+const DEFAULT_VOICE_LIMIT = 3
+const DEFAULT_TEXT_LIMIT = 100
+
+// Helper to fetch global settings from database
+async function getGlobalLimits(): Promise<{ voiceLimit: number; textLimit: number }> {
+  try {
+    const { data } = await supabase
+      .from('global_settings')
+      .select('key, value')
+      .in('key', ['default_text_limit', 'default_voice_limit'])
+
+    const settingsMap = new Map(data?.map(s => [s.key, parseInt(s.value)]) || [])
+    return {
+      textLimit: settingsMap.get('default_text_limit') || DEFAULT_TEXT_LIMIT,
+      voiceLimit: settingsMap.get('default_voice_limit') || DEFAULT_VOICE_LIMIT
+    }
+  } catch (error) {
+    console.error('Failed to fetch global limits:', error)
+    return { voiceLimit: DEFAULT_VOICE_LIMIT, textLimit: DEFAULT_TEXT_LIMIT }
+  }
+}
+
+// Hardcoded banned users/devices list - KEEP THIS for active threats
+const BANNED_DEVICES: string[] = [
+  'D0758F58-C953-40F7-9533-9DBBC4FB5FCB', // Device used by repeat abuser (Nigger/Gay Jew Boy Nigga)
+  '2B0779F3-5542-41C7-9663-7ABA3609BF61', // Device used by repeat abuser (jewish circumcised boy)
+]
+
+const BANNED_USERS: string[] = [
+  '3ab1a756-cb96-49b0-b585-0f10efe631c1', // User: Nigga - abusing API (deleted account)
+  '4d6dc8e7-21b6-43dd-bd04-38a21124d8d2', // User: Gay Jew Boy Nigga - same abuser, new account
+  '3787eb48-5be0-49eb-9c97-58c6201cc074', // User: jewish circumcised boy - same abuser, 3rd account
+]
+
+// Banned IPs - add IP addresses here to ban
+const BANNED_IPS: string[] = [
+  // IPs will be added when we detect repeat offenders
+  '99.25.48.67'
+]
+
+// Temporary bans (expires_at set) stop blocking once they expire
+function activeBanFilter(): string {
+  return `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`
+}
+
+// Rate limiting helper functions
+// Helper to get client IP from request
+export function getClientIP(req: NextApiRequest): string {
+  const forwarded = req.headers['x-forwarded-for']
+  const ip = forwarded ? (typeof forwarded === 'string' ? forwarded.split(',')[0] : forwarded[0]) : req.socket.remoteAddress
+  return ip || 'unknown'
+}
+
+// Hardcoded and database bans (IP, then device, then user). Attempts blocked by a
+// database ban are logged to banned_access_attempts.
+export async function isBanned(deviceId: string, userId?: string, clientIP?: string): Promise<boolean> {
+  // Check hardcoded IP bans (for active threats)
+  if (clientIP && BANNED_IPS.includes(clientIP)) {
+    console.log(`🚫 Banned IP attempted access (hardcoded): ${clientIP}`)
+    return true
+  }
+
+  // Check database IP bans
+  if (clientIP) {
+    try {
+      const { data: ipBan } = await supabase
+        .from('banned_ips')
+        .select('ip_address')
+        .eq('ip_address', clientIP)
+        .or(activeBanFilter())
+        .single()
+      
+      if (ipBan) {
+        console.log(`🚫 Banned IP attempted access (database): ${clientIP}`)
+        await supabase.from('banned_access_attempts').insert({
+          device_id: deviceId,
+          user_id: userId || null,
+          ip_address: clientIP,
+          ban_type: 'ip',
+          attempted_at: new Date().toISOString()
+        })
+        return true
+      }
+    } catch (e) {
+      console.error('Error checking IP ban:', e)
+    }
+  }
+
+  // Check hardcoded device bans (for active threats)
+  if (BANNED_DEVICES.includes(deviceId)) {
+    console.log(`🚫 Banned device attempted access (hardcoded) - Device: ${deviceId}, IP: ${clientIP}, User: ${userId || 'unknown'}`)
+    
+    try {
+      await supabase.from('banned_access_attempts').insert({
+        device_id: deviceId,
+        user_id: userId || null,
+        ip_address: clientIP,
+        ban_type: 'device',
+        attempted_at: new Date().toISOString()
+      })
+    } catch (e) {
+      console.error('Failed to log banned attempt:', e)
+    }
+    
+    return true
+  }
+
+  // Check database device bans
+  try {
+    const { data: deviceBan } = await supabase
+      .from('banned_devices')
+      .select('device_id')
+      .eq('device_id', deviceId)
+      .or(activeBanFilter())
+      .single()
+    
+    if (deviceBan) {
+      console.log(`🚫 Banned device attempted access (database) - Device: ${deviceId}, IP: ${clientIP}, User: ${userId || 'unknown'}`)
+      
+      await supabase.from('banned_access_attempts').insert({
+        device_id: deviceId,
+        user_id: userId || null,
+        ip_address: clientIP,
+        ban_type: 'device',
+        attempted_at: new Date().toISOString()
+      })
+      
+      return true
+    }
+  } catch (e) {
+    console.error('Error checking device ban:', e)
+  }
+  
+  // Check hardcoded user bans (for active threats)
+  if (userId && BANNED_USERS.includes(userId)) {
+    console.log(`🚫 Banned user attempted access (hardcoded) - User: ${userId}, IP: ${clientIP}, Device: ${deviceId}`)
+    
+    try {
+      await supabase.from('banned_access_attempts').insert({
+        device_id: deviceId,
+        user_id: userId,
+        ip_address: clientIP,
+        ban_type: 'user',
+        attempted_at: new Date().toISOString()
+      })
+    } catch (e) {
+      console.error('Failed to log banned attempt:', e)
+    }
+    
+    return true
+  }
+
+  // Check database user bans
+  if (userId) {
+    try {
+      const { data: userBan } = await supabase
+        .from('banned_users')
+        .select('user_id')
+        .eq('user_id', userId)
+        .or(activeBanFilter())
+        .single()
+      
+      if (userBan) {
+        console.log(`🚫 Banned user attempted access (database) - User: ${userId}, IP: ${clientIP}, Device: ${deviceId}`)
+        
+        await supabase.from('banned_access_attempts').insert({
+          device_id: deviceId,
+          user_id: userId,
+          ip_address: clientIP,
+          ban_type: 'user',
+          attempted_at: new Date().toISOString()
+        })
+        
+        return true
+      }
+    } catch (e) {
+      console.error('Error checking user ban:', e)
+    }
+  }
+
+  return false
+}
+
+export async function checkAndIncrementRateLimit(
+  deviceId: string,
+  isVoiceMode: boolean,
+  promptType?: string,
+  userId?: string,
+  clientIP?: string
+): Promise<{ allowed: boolean; limitType?: 'voice' | 'text'; used?: number; max?: number; banned?: boolean; countedAs?: 'voice' | 'text' }> {
+  // Fetch global limits from database
+  const { voiceLimit: VOICE_LIMIT, textLimit: TEXT_LIMIT } = await getGlobalLimits()
+
+  if (await isBanned(deviceId, userId, clientIP)) {
+    return { allowed: false, limitType: 'text', used: 0, max: 0, banned: true }
+  }
+
+  // Exempt automatic daily refresh tasks and post-session summaries from rate limits
+  const exemptPromptTypes = ['dailyMetrics', 'dailyBoosts', 'summarizeConversation', 'extractActionItems']
+  if (promptType && exemptPromptTypes.includes(promptType)) {
+    return { allowed: true }
+  }
+  
+  try {
+    // Check if user has custom rate limits
+    let customTextLimit: number | null = null
+    let customVoiceLimit: number | null = null
+    if (userId) {
+      const { data: userLimit } = await supabase
+        .from('user_limits')
+        .select('is_flagged, custom_rate_limit, custom_voice_limit')
+        .eq('user_id', userId)
+        .single()
+      
+      if (userLimit) {
+        if (userLimit.custom_rate_limit !== null) {
+          customTextLimit = userLimit.custom_rate_limit
+          console.log(`⚙️ User ${userId} has custom text limit: ${customTextLimit}`)
+        }
+        if (userLimit.custom_voice_limit !== null) {
+          customVoiceLimit = userLimit.custom_voice_limit
+          console.log(`⚙️ User ${userId} has custom voice limit: ${customVoiceLimit}`)
+        }
+      }
+    }
+    
+    // Get or create usage record
+    const { data: usage, error: fetchError } = await supabase
+      .from('usage_limits')
+      .select('*')
+      .eq('device_id', deviceId)
+      .single()
+
+    let currentUsage = usage
+
+    // Create record if doesn't exist
+    if (!currentUsage || fetchError) {
+      const now = new Date()
+      const resetAt = new Date(now)
+      resetAt.setUTCHours(24, 0, 0, 0) // Next midnight UTC
+
+      const { data: newUsage, error: insertError } = await supabase
+        .from('usage_limits')
+        .insert({
+          device_id: deviceId,
+          voice_sessions_count: 0,
+          text_sessions_count: 0,
+          has_elevenlabs_key: false,
+          reset_at: resetAt.toISOString()
+        })
+        .select()
+        .single()
+
+      if (insertError) {
+        console.error('Failed to create usage record:', insertError)
+        return { allowed: true } // Fail open on DB errors
+      }
+      currentUsage = newUsage
+    }
+
+    // Check if we need to reset counts (daily reset at midnight UTC)
+    const now = new Date()
+    const resetAt = currentUsage.reset_at ? new Date(currentUsage.reset_at) : null
+    
+    if (!resetAt || now >= resetAt) {
+      // Reset counts and set next reset time to next midnight UTC
+      const nextReset = new Date(now)
+      nextReset.setUTCDate(nextReset.getUTCDate() + 1)
+      nextReset.setUTCHours(0, 0, 0, 0) // Next midnight UTC
+
+      const { data: resetUsage, error: resetError } = await supabase
+        .from('usage_limits')
+        .update({
+          voice_sessions_count: 0,
+          text_sessions_count: 0,
+          reset_at: nextReset.toISOString()
+        })
+        .eq('device_id', deviceId)
+        .select()
+        .single()
+
+      if (resetError) {
+        console.error('Failed to reset usage counts:', resetError)
+        // Continue with existing counts if reset fails
+      } else {
+        currentUsage = resetUsage
+        console.log(`Reset usage counts for device ${deviceId}, next reset: ${nextReset.toISOString()}`)
+      }
+    }
+
+    // Check voice mode rate limit
+    if (isVoiceMode) {
+      // Check voice limit (use custom limit if set, otherwise default)
+      const effectiveVoiceLimit = customVoiceLimit !== null ? customVoiceLimit : VOICE_LIMIT
+      
+      if (currentUsage.voice_sessions_count >= effectiveVoiceLimit) {
+        console.log(`⚠️ Voice limit reached: ${currentUsage.voice_sessions_count}/${effectiveVoiceLimit}`)
+        return {
+          allowed: false,
+          limitType: 'voice',
+          used: currentUsage.voice_sessions_count,
+          max: effectiveVoiceLimit
+        }
+      }
+
+      // Increment voice count
+      await supabase
+        .from('usage_limits')
+        .update({
+          voice_sessions_count: currentUsage.voice_sessions_count + 1
+        })
+        .eq('device_id', deviceId)
+
+      console.log(`✅ Voice request allowed: ${currentUsage.voice_sessions_count + 1}/${effectiveVoiceLimit}`)
+      return { allowed: true, countedAs: 'voice' }
+    } else {
+      // Check text mode rate limit (use custom limit if set, otherwise default)
+      const effectiveLimit = customTextLimit !== null ? customTextLimit : TEXT_LIMIT
+      
+      if (currentUsage.text_sessions_count >= effectiveLimit) {
+        return {
+          allowed: false,
+          limitType: 'text',
+          used: currentUsage.text_sessions_count,
+          max: effectiveLimit
+        }
+      }
+
+      // Increment text count
+      await supabase
+        .from('usage_limits')
+        .update({ text_sessions_count: currentUsage.text_sessions_count + 1 })
+        .eq('device_id', deviceId)
+
+      return { allowed: true, countedAs: 'text' }
+    }
+  } catch (error) {
+    console.error('Rate limit check error:', error)
+    // Fail closed on errors to prevent abuse
+    return { 
+      allowed: false, 
+      limitType: 'text',
+      used: 0,
+      max: TEXT_LIMIT
+    }
+  }
+}
+
+// Give back the session counted for a request that was cancelled before
+// anything reached the user
+export async function refundRateLimit(deviceId: string, limitType: 'voice' | 'text') {
+  const column = limitType === 'voice' ? 'voice_sessions_count' : 'text_sessions_count'
+  try {
+    const { data: usage } = await supabase
+      .from('usage_limits')
+      .select(column)
+      .eq('device_id', deviceId)
+      .single()
+
+    const count = (usage as Record<string, number> | null)?.[column]
+    if (count && count > 0) {
+      await supabase
+        .from('usage_limits')
+        .update({ [column]: count - 1 })
+        .eq('device_id', deviceId)
+      console.log(`↩️ Refunded ${limitType} session for device ${deviceId}`)
+    }
+  } catch (error) {
+    console.error('Failed to refund rate limit:', error)
+  }
+}
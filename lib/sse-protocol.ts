@@ -0,0 +1,181 @@
+import type { NextApiRequest } from 'next'
+import type { FinishReason, Message, TokenUsage, ToolInvocation } from './ai-providers'
+import type { ServerToolResult } from './ai-tools'
+import type { SpeechAlignment } from './tts'
+
+// Typed SSE event protocol for the gateway routes.
+//
+// Version 1 is the original untyped stream ({ chunk }, { toolInvocation },
+// the bare error object and [DONE]) and stays the default so old app builds
+// keep working. Clients opt into version 2 with the X-Protocol-Version request
+// header; every event is then a JSON object with a "type" field, starting with
+// "start" and ending with "done", "error" or "cancelled". The negotiated
+// version is echoed in the X-Protocol-Version response header.
+
+export const LEGACY_PROTOCOL_VERSION = 1
+export const SSE_PROTOCOL_VERSION = 2
+export const PROTOCOL_VERSION_HEADER = 'X-Protocol-Version'
+
+export interface StartEvent {
+  type: 'start'
+  protocolVersion: number
+  requestId: string
+  provider: string // Routed provider/model; "done" says which one served the request
+  model: string
+  downgradedFrom?: string // Model the client asked for when its tier isn't allowed to use it
+}
+
+export interface StatusEvent {
+  type: 'status'
+  status: 'thinking'
+}
+
+// Sent before the answer when the input was flagged but not blocked
+export interface ModerationEvent {
+  type: 'moderation'
+  action: 'warn'
+  categories: string[]
+}
+
+export interface DeltaEvent {
+  type: 'delta'
+  text: string
+}
+
+export interface ToolCallEvent {
+  type: 'tool_call'
+  toolCall: ToolInvocation
+}
+
+export interface ToolResultEvent {
+  type: 'tool_result'
+  toolResult: ServerToolResult
+}
+
+export interface CompactionEvent {
+  type: 'compaction'
+  summaryMessage: Message
+  replacedMessageCount: number
+}
+
+// Validated JSON for requests with a responseSchema (sent instead of deltas)
+export interface ResultEvent {
+  type: 'result'
+  result: unknown
+}
+
+// One synthesized sentence, sent after the deltas that contain its text
+export interface AudioEvent {
+  type: 'audio'
+  sequence: number // Play in this order, starting at 1
+  text: string
+  audio: string // Base64 MP3
+  alignment?: SpeechAlignment // When word timestamps were requested
+  format: 'mp3'
+}
+
+export interface UsageEvent {
+  type: 'usage'
+  usage?: TokenUsage
+  tokensUsed?: number
+}
+
+export interface GatewayErrorDetails {
+  error: string
+  errorType: string
+  errorCode: string
+  requestId: string
+  provider?: string
+  model?: string
+  promptType?: string
+  timestamp?: string
+  context?: Record<string, unknown>
+}
+
+export interface ErrorEvent {
+  type: 'error'
+  error: GatewayErrorDetails
+}
+
+export interface CancelledEvent {
+  type: 'cancelled'
+  requestId: string
+  delivered: boolean // Whether any text or tool call reached the client first
+}
+
+export interface DoneEvent {
+  type: 'done'
+  finishReason: FinishReason
+  provider: string
+  model: string
+}
+
+export type GatewayEvent =
+  | StartEvent
+  | StatusEvent
+  | ModerationEvent
+  | DeltaEvent
+  | ToolCallEvent
+  | ToolResultEvent
+  | CompactionEvent
+  | ResultEvent
+  | AudioEvent
+  | UsageEvent
+  | ErrorEvent
+  | CancelledEvent
+  | DoneEvent
+
+// Highest version both sides understand; requests without the header get version 1
+export function negotiateProtocolVersion(req: NextApiRequest): number {
+  const header = req.headers[PROTOCOL_VERSION_HEADER.toLowerCase()]
+  const requested = parseInt(typeof header === 'string' ? header : '')
+  if (Number.isNaN(requested) || requested < LEGACY_PROTOCOL_VERSION) {
+    return LEGACY_PROTOCOL_VERSION
+  }
+  return Math.min(requested, SSE_PROTOCOL_VERSION)
+}
+
+// The data: payload for an event, or null when the version has no equivalent
+export function encodeEvent(event: GatewayEvent, protocolVersion: number): string | null {
+  if (protocolVersion >= SSE_PROTOCOL_VERSION) {
+    return JSON.stringify(event)
+  }
+
+  switch (event.type) {
+    case 'status':
+      return JSON.stringify({ status: event.status })
+    case 'moderation':
+      return JSON.stringify({ moderation: { action: event.action, categories: event.categories } })
+    case 'delta':
+      return JSON.stringify({ chunk: event.text })
+    case 'tool_call':
+      return JSON.stringify({ toolInvocation: event.toolCall })
+    case 'tool_result':
+      return JSON.stringify({ toolResult: event.toolResult })
+    case 'compaction':
+      return JSON.stringify({
+        compaction: { summaryMessage: event.summaryMessage, replacedMessageCount: event.replacedMessageCount }
+      })
+    case 'result':
+      return JSON.stringify({ result: event.result })
+    case 'audio':
+      return JSON.stringify({
+        audio: {
+          sequence: event.sequence,
+          text: event.text,
+          audio: event.audio,
+          alignment: event.alignment,
+          format: event.format
+        }
+      })
+    case 'error':
+      return JSON.stringify(event.error)
+    case 'cancelled':
+      return JSON.stringify({ cancelled: { requestId: event.requestId, delivered: event.delivered } })
+    case 'done':
+      return '[DONE]'
+    case 'start':
+    case 'usage':
+      return null
+  }
+}
@@ -0,0 +1,381 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { randomBytes } from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import {
+  encodeEvent,
+  negotiateProtocolVersion,
+  PROTOCOL_VERSION_HEADER,
+  type CancelledEvent,
+  type DoneEvent,
+  type ErrorEvent,
+  type GatewayEvent
+} from './sse-protocol'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Resumable SSE for the gateway routes. Every event gets an id of the form
+// "<requestId>:<sequence>" and is kept for a short window, in memory for
+// reconnects that land on this instance and in ai_stream_events for the rest.
+// A client that reconnects with Last-Event-ID gets the events it missed, then
+// the rest of the answer as it is generated, without a second model call.
+// Audio events are only sent live: a spoken answer would otherwise keep
+// megabytes per stream around, so a replay carries the text without the audio.
+// Events are encoded in the protocol version the client negotiated (see
+// sse-protocol.ts) before buffering, so a replay matches the original stream.
+
+export const REPLAY_TTL_MS = 10 * 60 * 1000 // 10 minutes
+const PERSIST_INTERVAL_MS = 1000
+const REPLAY_POLL_INTERVAL_MS = 500
+const REPLAY_MAX_WAIT_MS = 270000 // Stay under the route's maxDuration
+// Reasoning models can think for a long time before the first token; without
+// traffic, proxies and iOS drop the idle connection
+const HEARTBEAT_INTERVAL_MS = 15000
+
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no' // Disable buffering in nginx
+}
+
+type StreamStatus = 'streaming' | 'completed' | 'failed' | 'cancelled'
+
+interface BufferedEvent {
+  id: number
+  data: string
+}
+
+// Who a stream belongs to: the ids sent with the original request. A replay
+// has to present the same ones.
+export interface StreamOwner {
+  userId?: string
+  deviceId?: string
+}
+
+interface StreamBuffer {
+  requestId: string
+  owner: StreamOwner
+  protocolVersion: number // Replays are sent with the version the events were encoded in
+  events: BufferedEvent[]
+  status: StreamStatus
+  listeners: Set<() => void>
+  isStored: boolean // Has its ai_stream_buffers row
+  storedEvents: number // Events already in ai_stream_events
+}
+
+const buffers = new Map<string, StreamBuffer>()
+
+export interface SSEStream {
+  requestId: string
+  protocolVersion: number
+  isClientConnected(): boolean
+  send(event: GatewayEvent): void
+  finish(event: DoneEvent): Promise<void> // Sends the done event and ends the response
+  fail(event: ErrorEvent): Promise<void> // Sends the error event and ends the response
+  cancel(event: CancelledEvent): Promise<void> // Sends the cancelled event and ends the response
+}
+
+function formatEvent(requestId: string, event: BufferedEvent): string {
+  return `id: ${requestId}:${event.id}\ndata: ${event.data}\n\n`
+}
+
+// SSE comment lines keep the connection busy without adding events to the buffer
+function startHeartbeat(res: NextApiResponse, isClientConnected: () => boolean) {
+  const heartbeat = setInterval(() => {
+    if (isClientConnected()) {
+      res.write(': heartbeat\n\n', 'utf8')
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+  heartbeat.unref?.()
+  return () => clearInterval(heartbeat)
+}
+
+// Saves only the events added since the last save, and the status after them,
+// so a replay that sees the stream finished also sees all of its events
+async function persistBuffer(buffer: StreamBuffer) {
+  try {
+    if (!buffer.isStored) {
+      const { error } = await supabase.from('ai_stream_buffers').upsert({
+        request_id: buffer.requestId,
+        user_id: buffer.owner.userId || null,
+        device_id: buffer.owner.deviceId || null,
+        protocol_version: buffer.protocolVersion,
+        status: 'streaming',
+        updated_at: new Date().toISOString(),
+        expires_at: new Date(Date.now() + REPLAY_TTL_MS).toISOString()
+      }, { onConflict: 'request_id' })
+      if (error) {
+        throw new Error(error.message)
+      }
+      buffer.isStored = true
+    }
+
+    const newEvents = buffer.events.slice(buffer.storedEvents)
+    if (newEvents.length > 0) {
+      const { error } = await supabase.from('ai_stream_events').insert(newEvents.map(event => ({
+        request_id: buffer.requestId,
+        id: event.id,
+        data: event.data
+      })))
+      if (error) {
+        throw new Error(error.message)
+      }
+      buffer.storedEvents += newEvents.length
+    }
+
+    if (buffer.status !== 'streaming') {
+      const { error } = await supabase.from('ai_stream_buffers').update({
+        status: buffer.status,
+        updated_at: new Date().toISOString(),
+        expires_at: new Date(Date.now() + REPLAY_TTL_MS).toISOString()
+      }).eq('request_id', buffer.requestId)
+      if (error) {
+        throw new Error(error.message)
+      }
+    }
+  } catch (error) {
+    console.error('Failed to persist stream buffer:', error)
+  }
+}
+
+async function deleteExpiredBuffers() {
+  try {
+    await supabase.from('ai_stream_buffers').delete().lt('expires_at', new Date().toISOString())
+  } catch (error) {
+    console.error('Failed to clean up stream buffers:', error)
+  }
+}
+
+// Start an SSE response whose events are buffered for replay. Generation keeps
+// going if the client drops, so a reconnect can still get the full answer.
+export function openSSEStream(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  requestId: string,
+  owner: StreamOwner
+): SSEStream {
+  const protocolVersion = negotiateProtocolVersion(req)
+  res.writeHead(200, {
+    ...SSE_HEADERS,
+    'X-Request-Id': requestId,
+    [PROTOCOL_VERSION_HEADER]: String(protocolVersion)
+  })
+
+  // Connection health check - detect client disconnects
+  let isClientConnected = true
+  req.on('close', () => {
+    isClientConnected = false
+    console.log(`Client disconnected from ${requestId}, buffering the rest for replay`)
+  })
+
+  const buffer: StreamBuffer = {
+    requestId,
+    owner,
+    protocolVersion,
+    events: [],
+    status: 'streaming',
+    listeners: new Set(),
+    isStored: false,
+    storedEvents: 0
+  }
+  buffers.set(requestId, buffer)
+  const stopHeartbeat = startHeartbeat(res, () => isClientConnected)
+
+  // Writes are chained so a slow periodic save can't overwrite the final one
+  let persistTimer: ReturnType<typeof setTimeout> | undefined
+  let persistChain: Promise<void> = Promise.resolve()
+  const persist = () => {
+    persistChain = persistChain.then(() => persistBuffer(buffer))
+    return persistChain
+  }
+
+  let sequence = 0
+  const append = (gatewayEvent: GatewayEvent) => {
+    const data = encodeEvent(gatewayEvent, protocolVersion)
+    if (data === null) return
+    const event = { id: ++sequence, data }
+    if (isClientConnected) {
+      res.write(formatEvent(requestId, event), 'utf8')
+    }
+    if (gatewayEvent.type === 'audio') return // Live only
+    buffer.events.push(event)
+    buffer.listeners.forEach(listener => listener())
+    if (!persistTimer) {
+      persistTimer = setTimeout(() => {
+        persistTimer = undefined
+        void persist()
+      }, PERSIST_INTERVAL_MS)
+    }
+  }
+
+  const close = async (status: StreamStatus) => {
+    if (buffer.status !== 'streaming') return
+    buffer.status = status
+    buffer.listeners.forEach(listener => listener())
+    stopHeartbeat()
+    clearTimeout(persistTimer)
+    res.end()
+    await persist()
+    await deleteExpiredBuffers()
+    setTimeout(() => buffers.delete(requestId), REPLAY_TTL_MS).unref?.()
+  }
+
+  return {
+    requestId,
+    protocolVersion,
+    isClientConnected: () => isClientConnected,
+    send: (event) => append(event),
+    finish: async (event) => {
+      if (buffer.status !== 'streaming') return
+      append(event)
+      await close('completed')
+    },
+    fail: async (event) => {
+      if (buffer.status !== 'streaming') return
+      append(event)
+      await close('failed')
+    },
+    cancel: async (event) => {
+      if (buffer.status !== 'streaming') return
+      append(event)
+      await close('cancelled')
+    }
+  }
+}
+
+// Request ids double as replay and cancellation handles, so they must not be guessable
+export function createRequestId(prefix = 'req'): string {
+  return `${prefix}_${Date.now()}_${randomBytes(12).toString('hex')}`
+}
+
+// Every id recorded for the stream has to match, and the caller can't add or drop one
+function isStreamOwner(owner: StreamOwner, caller: StreamOwner): boolean {
+  return (owner.userId || undefined) === (caller.userId || undefined) &&
+    (owner.deviceId || undefined) === (caller.deviceId || undefined)
+}
+
+// "<requestId>:<sequence>" -> parts, or null for ids this gateway didn't issue
+export function parseLastEventId(lastEventId: string): { requestId: string; sequence: number } | null {
+  const separator = lastEventId.lastIndexOf(':')
+  if (separator <= 0) {
+    return null
+  }
+  const sequence = parseInt(lastEventId.substring(separator + 1))
+  return Number.isNaN(sequence) ? null : { requestId: lastEventId.substring(0, separator), sequence }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Replay a stream after Last-Event-ID, following it live until it finishes.
+// Returns false (without writing anything) when the stream is unknown or expired.
+export async function replaySSEStream(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  lastEventId: string,
+  caller: StreamOwner
+): Promise<boolean> {
+  const parsed = parseLastEventId(lastEventId)
+  if (!parsed) {
+    return false
+  }
+  const { requestId } = parsed
+  let sentUpTo = parsed.sequence
+
+  let isClientConnected = true
+  req.on('close', () => {
+    isClientConnected = false
+  })
+
+  const writeNewEvents = (events: BufferedEvent[]) => {
+    for (const event of events) {
+      if (event.id > sentUpTo && isClientConnected) {
+        res.write(formatEvent(requestId, event), 'utf8')
+        sentUpTo = event.id
+      }
+    }
+  }
+
+  // Same instance: follow the live buffer
+  const local = buffers.get(requestId)
+  if (local) {
+    if (!isStreamOwner(local.owner, caller)) {
+      console.warn(`🚫 Replay of ${requestId} refused: caller is not the stream owner`)
+      return false
+    }
+    res.writeHead(200, {
+      ...SSE_HEADERS,
+      'X-Request-Id': requestId,
+      [PROTOCOL_VERSION_HEADER]: String(local.protocolVersion)
+    })
+    console.log(`🔁 Replaying ${requestId} from event ${sentUpTo} (in memory)`)
+    writeNewEvents(local.events)
+    if (local.status === 'streaming') {
+      const stopHeartbeat = startHeartbeat(res, () => isClientConnected)
+      await new Promise<void>(resolve => {
+        const listener = () => {
+          writeNewEvents(local.events)
+          if (local.status !== 'streaming' || !isClientConnected) {
+            local.listeners.delete(listener)
+            resolve()
+          }
+        }
+        local.listeners.add(listener)
+      })
+      stopHeartbeat()
+    }
+    res.end()
+    return true
+  }
+
+  // Another instance: poll the persisted buffer until the stream finishes
+  const fetchBuffer = async () => {
+    const { data } = await supabase
+      .from('ai_stream_buffers')
+      .select('user_id, device_id, protocol_version, status, expires_at')
+      .eq('request_id', requestId)
+      .maybeSingle()
+    return data && new Date(data.expires_at) > new Date() ? data : null
+  }
+  // Read after the status, so a finished stream's events are all there
+  const fetchNewEvents = async (): Promise<BufferedEvent[]> => {
+    const { data } = await supabase
+      .from('ai_stream_events')
+      .select('id, data')
+      .eq('request_id', requestId)
+      .gt('id', sentUpTo)
+      .order('id', { ascending: true })
+    return data || []
+  }
+
+  let stored = await fetchBuffer()
+  if (!stored) {
+    return false
+  }
+  if (!isStreamOwner({ userId: stored.user_id, deviceId: stored.device_id }, caller)) {
+    console.warn(`🚫 Replay of ${requestId} refused: caller is not the stream owner`)
+    return false
+  }
+
+  res.writeHead(200, {
+    ...SSE_HEADERS,
+    'X-Request-Id': requestId,
+    [PROTOCOL_VERSION_HEADER]: String(stored.protocol_version)
+  })
+  console.log(`🔁 Replaying ${requestId} from event ${sentUpTo} (persisted)`)
+  const startTime = Date.now()
+  writeNewEvents(await fetchNewEvents())
+  const stopHeartbeat = startHeartbeat(res, () => isClientConnected)
+  while (stored.status === 'streaming' && isClientConnected && Date.now() - startTime < REPLAY_MAX_WAIT_MS) {
+    await sleep(REPLAY_POLL_INTERVAL_MS)
+    stored = (await fetchBuffer()) || { ...stored, status: 'failed' }
+    writeNewEvents(await fetchNewEvents())
+  }
+  stopHeartbeat()
+  res.end()
+  return true
+}
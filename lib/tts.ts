@@ -0,0 +1,317 @@
+import OpenAI, { toFile } from 'openai'
+import { elevenLabsKeyManager } from './elevenlabs-key-manager'
+import type { AudioEvent } from './sse-protocol'
+
+// Text-to-speech for the streaming voice paths (voice WebSocket, gateway
+// "speak" option). Same providers, models and word timestamps as the
+// openai-tts, elevenlabs-tts and hume-tts routes, without their rate limiting,
+// which the callers handle per request.
+
+export type TTSProviderName = 'openai' | 'elevenlabs' | 'hume'
+
+export interface SpeechOptions {
+  provider: TTSProviderName
+  voiceId: string
+  speed?: number // OpenAI only
+  apiKey?: string // User's own ElevenLabs key
+  withTimestamps?: boolean // Word alignment (an extra Whisper call for OpenAI)
+  signal?: AbortSignal
+}
+
+// Word timings in seconds from the start of the clip, for every provider
+export interface SpeechAlignment {
+  words: Array<{ word: string; start: number; end: number }>
+}
+
+export interface SynthesizedSpeech {
+  audio: Buffer // MP3
+  alignment?: SpeechAlignment
+  provider: TTSProviderName
+  model: string // For calculateCost
+  characters: number
+}
+
+const TTS_PROVIDERS: TTSProviderName[] = ['openai', 'elevenlabs', 'hume']
+
+export function isTTSProvider(provider: string): provider is TTSProviderName {
+  return TTS_PROVIDERS.includes(provider as TTSProviderName)
+}
+
+export async function synthesizeSpeech(text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+  switch (options.provider) {
+    case 'openai':
+      return synthesizeWithOpenAI(text, options)
+    case 'elevenlabs':
+      return synthesizeWithElevenLabs(text, options)
+    case 'hume':
+      return synthesizeWithHume(text, options)
+  }
+}
+
+async function synthesizeWithOpenAI(text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) {
+    throw new Error('OpenAI API key not configured')
+  }
+  const model = 'gpt-4o-mini-tts'
+  const openai = new OpenAI({ apiKey })
+  const response = await openai.audio.speech.create({
+    model,
+    voice: options.voiceId,
+    input: text,
+    response_format: 'mp3',
+    speed: options.speed || 1.0
+  }, { signal: options.signal })
+
+  const audio = Buffer.from(await response.arrayBuffer())
+
+  let alignment: SpeechAlignment | undefined
+  if (options.withTimestamps) {
+    const transcription = await openai.audio.transcriptions.create({
+      file: await toFile(audio, 'speech.mp3'),
+      model: 'whisper-1',
+      response_format: 'verbose_json',
+      timestamp_granularities: ['word']
+    }, { signal: options.signal })
+    alignment = {
+      words: (transcription.words || []).map(w => ({ word: w.word, start: w.start, end: w.end }))
+    }
+  }
+
+  return { audio, alignment, provider: 'openai', model, characters: text.length }
+}
+
+async function synthesizeWithElevenLabs(text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+  const apiKey = options.apiKey?.trim() || await elevenLabsKeyManager.getAvailableKey()
+  if (!apiKey) {
+    throw new Error('No ElevenLabs API keys available')
+  }
+  const model = 'eleven_turbo_v2_5'
+  const endpoint = options.withTimestamps
+    ? `https://api.elevenlabs.io/v1/text-to-speech/${options.voiceId}/with-timestamps`
+    : `https://api.elevenlabs.io/v1/text-to-speech/${options.voiceId}`
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'xi-api-key': apiKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      text,
+      model_id: model,
+      voice_settings: { stability: 0.5, similarity_boost: 0.75 },
+      output_format: 'mp3_44100_128'
+    }),
+    signal: options.signal
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`ElevenLabs API error: ${response.statusText} - ${errorText}`)
+  }
+
+  if (!options.withTimestamps) {
+    return { audio: Buffer.from(await response.arrayBuffer()), provider: 'elevenlabs', model, characters: text.length }
+  }
+
+  // with-timestamps returns JSON with base64 audio and per-character timings
+  const data = await response.json()
+  return {
+    audio: Buffer.from(data.audio_base64 || '', 'base64'),
+    alignment: data.alignment ? wordsFromCharacters(data.alignment) : undefined,
+    provider: 'elevenlabs',
+    model,
+    characters: text.length
+  }
+}
+
+function wordsFromCharacters(alignment: {
+  characters: string[]
+  character_start_times_seconds: number[]
+  character_end_times_seconds: number[]
+}): SpeechAlignment {
+  const words: SpeechAlignment['words'] = []
+  let current: SpeechAlignment['words'][number] | undefined
+  alignment.characters.forEach((character, index) => {
+    if (/\s/.test(character)) {
+      current = undefined
+      return
+    }
+    if (!current) {
+      current = { word: '', start: alignment.character_start_times_seconds[index], end: 0 }
+      words.push(current)
+    }
+    current.word += character
+    current.end = alignment.character_end_times_seconds[index]
+  })
+  return { words }
+}
+
+async function synthesizeWithHume(text: string, options: SpeechOptions): Promise<SynthesizedSpeech> {
+  const apiKey = process.env.HUME_API_KEY
+  if (!apiKey) {
+    throw new Error('Hume API key not configured')
+  }
+  const response = await fetch('https://api.hume.ai/v0/tts', {
+    method: 'POST',
+    headers: {
+      'X-Hume-Api-Key': apiKey,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      version: '2',
+      include_timestamp_types: options.withTimestamps ? ['word'] : undefined,
+      utterances: [{ text, voice: { id: options.voiceId } }],
+      format: { type: 'mp3' }
+    }),
+    signal: options.signal
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Hume API error: ${response.statusText} - ${errorText}`)
+  }
+
+  const data = await response.json()
+  const generation = data.generations?.[0]
+  // Timestamps are nested in snippets[0][0].timestamps, in milliseconds
+  const timestamps: Array<{ type: string; text: string; time: { begin: number; end: number } }> =
+    generation?.snippets?.[0]?.[0]?.timestamps || []
+  return {
+    audio: Buffer.from(generation?.audio || '', 'base64'),
+    alignment: options.withTimestamps
+      ? {
+          words: timestamps
+            .filter(t => t.type === 'word')
+            .map(t => ({ word: t.text, start: t.time.begin / 1000, end: t.time.end / 1000 }))
+        }
+      : undefined,
+    provider: 'hume',
+    model: 'hume-tts',
+    characters: text.length
+  }
+}
+
+// Splits streamed text into sentences so each can be spoken as soon as it is
+// complete. Very short fragments ("Hi.") are held back and joined with the next
+// sentence, since each synthesis call has a fixed latency cost.
+const MIN_SENTENCE_LENGTH = 20
+// Enough to stay ahead of playback without a burst of TTS calls for a long answer
+const MAX_PARALLEL_SYNTHESES = 3
+const SENTENCE_END = /[.!?…]+["')\]]*\s+|\n+/g
+
+class SentenceBuffer {
+  private pending = ''
+
+  // Returns the sentences completed by this chunk
+  push(chunk: string): string[] {
+    this.pending += chunk
+    const sentences: string[] = []
+    let start = 0
+    SENTENCE_END.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = SENTENCE_END.exec(this.pending)) !== null) {
+      const end = match.index + match[0].length
+      const sentence = this.pending.slice(start, end).trim()
+      if (sentence.length >= MIN_SENTENCE_LENGTH) {
+        sentences.push(sentence)
+        start = end
+      }
+    }
+    this.pending = this.pending.slice(start)
+    return sentences
+  }
+
+  // Whatever is left once the stream has finished
+  flush(): string | null {
+    const rest = this.pending.trim()
+    this.pending = ''
+    return rest.length > 0 ? rest : null
+  }
+}
+
+export interface SpeechUsage {
+  provider: TTSProviderName
+  model: string
+  characters: number
+}
+
+export interface SpeechPipeline {
+  push(chunk: string): void // Streamed text; complete sentences are synthesized right away
+  finish(): Promise<void> // Speak the remaining text and wait for every audio event
+  usage(): SpeechUsage[] // Characters synthesized per model, for trackTTSUsage
+}
+
+// Turns a text stream into ordered audio events: sentences are synthesized in
+// parallel (up to MAX_PARALLEL_SYNTHESES at a time) but delivered in sequence.
+// A failed sentence is logged and skipped so the text answer isn't lost over it;
+// after an abort nothing more is synthesized or delivered.
+export function createSpeechPipeline(
+  options: SpeechOptions,
+  onAudio: (event: AudioEvent) => void
+): SpeechPipeline {
+  const sentences = new SentenceBuffer()
+  const spoken = new Map<string, SpeechUsage>()
+  let sequence = 0
+  let audioChain: Promise<void> = Promise.resolve()
+
+  // A finished synthesis hands its slot straight to the next sentence waiting
+  let running = 0
+  const waiting: Array<() => void> = []
+  const synthesizeInTurn = async (text: string) => {
+    if (running < MAX_PARALLEL_SYNTHESES) {
+      running++
+    } else {
+      await new Promise<void>(resolve => waiting.push(resolve))
+    }
+    try {
+      if (options.signal?.aborted) return null
+      return await synthesizeSpeech(text, options)
+    } finally {
+      const next = waiting.shift()
+      if (next) {
+        next()
+      } else {
+        running--
+      }
+    }
+  }
+
+  const speak = (text: string) => {
+    const audioSequence = ++sequence
+    const synthesis = synthesizeInTurn(text).catch(error => {
+      if (!options.signal?.aborted) {
+        console.error(`❌ TTS failed for sentence ${audioSequence}:`, error)
+      }
+      return null
+    })
+    audioChain = audioChain.then(async () => {
+      const speech = await synthesis
+      if (!speech) return
+      // Billed even if the request was cancelled before it could be sent
+      const usage = spoken.get(speech.model) || { provider: speech.provider, model: speech.model, characters: 0 }
+      spoken.set(speech.model, { ...usage, characters: usage.characters + speech.characters })
+      if (options.signal?.aborted) return
+      onAudio({
+        type: 'audio',
+        sequence: audioSequence,
+        text,
+        audio: speech.audio.toString('base64'),
+        alignment: speech.alignment,
+        format: 'mp3'
+      })
+    })
+  }
+
+  return {
+    push: (chunk) => sentences.push(chunk).forEach(speak),
+    finish: async () => {
+      const rest = sentences.flush()
+      if (rest && !options.signal?.aborted) {
+        speak(rest)
+      }
+      await audioChain
+    },
+    usage: () => [...spoken.values()]
+  }
+}
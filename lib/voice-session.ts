@@ -0,0 +1,410 @@
+import {
+  fitToContextWindow,
+  getFallbackChain,
+  getModelRouter,
+  isSupportedProvider,
+  streamWithFallback,
+  type AIProviderName,
+  type FallbackStreamResult,
+  type Message,
+  type ModelRoute
+} from './ai-providers'
+import { registerActiveRequest } from './ai-cancellation'
+import { assignExperiment, type ExperimentAssignment } from './ai-experiments'
+import { trackAIError, trackAIRequest, trackAIResponse, trackTTSUsage } from './ai-tracking'
+import {
+  applyPromptTemplate,
+  isAppSystemPrompt,
+  isPromptVariables,
+  type PromptTemplateRef,
+  type PromptVariables
+} from './prompt-templates'
+import { moderateInput } from './moderation'
+import { checkAndIncrementRateLimit, refundRateLimit } from './rate-limit'
+import { SSE_PROTOCOL_VERSION, type GatewayErrorDetails, type GatewayEvent } from './sse-protocol'
+import { createRequestId } from './sse-stream'
+import { createSpeechPipeline, isTTSProvider, type TTSProviderName } from './tts'
+
+// Real-time voice conversations. One session per connection: the client starts
+// it once, then sends user turns; each turn streams back the protocol version 2
+// events (start, delta, audio, usage, done) with every sentence synthesized as
+// soon as it is complete, so playback starts long before the answer is done.
+// The session only needs a transport that can send events, so it runs the same
+// over the WebSocket endpoint or a local stand-in. The transport authenticates
+// the connection; its user id replaces any context.userId the client sends.
+
+export interface VoiceTransport {
+  send(event: VoiceServerEvent): void
+  close(): void
+}
+
+export type VoiceServerEvent = GatewayEvent | { type: 'ready'; protocolVersion: number }
+
+export type VoiceClientMessage =
+  | {
+      type: 'session.start'
+      provider?: AIProviderName
+      model?: string
+      promptType?: string
+      voice: { provider: TTSProviderName; voiceId: string; speed?: number; withTimestamps?: boolean }
+      previousMessages?: Message[]
+      promptVariables?: PromptVariables // For the server-side prompt template
+      context?: {
+        userId?: string // Ignored - the session runs as the authenticated user
+        sessionId?: string
+        coachId?: string
+        featureName?: string
+        deviceId?: string
+      }
+    }
+  | { type: 'turn'; message: string } // Only the latest of several turns sent in a row runs
+  | { type: 'cancel' } // Stop the current turn (sending a new turn also interrupts it)
+
+type SessionConfig = Extract<VoiceClientMessage, { type: 'session.start' }>
+
+export interface VoiceSession {
+  handleMessage(raw: string): Promise<void>
+  close(): void // Connection closed - stops any turn in progress
+}
+
+function errorDetails(error: unknown, requestId: string, config?: SessionConfig, route?: ModelRoute): GatewayErrorDetails {
+  const err = error as { message?: string; name?: string; code?: string }
+  return {
+    error: err.message || 'Unknown error occurred',
+    errorType: err.name || 'UnknownError',
+    errorCode: err.code || 'UNKNOWN',
+    requestId,
+    provider: route?.provider || config?.provider,
+    model: route?.model || config?.model,
+    promptType: config?.promptType,
+    timestamp: new Date().toISOString()
+  }
+}
+
+export function createVoiceSession(transport: VoiceTransport, clientIP: string, userId: string): VoiceSession {
+  let config: SessionConfig | undefined
+  let history: Message[] = []
+  // The session stops its own turns directly; POST /api/ai-gateway/cancel can too
+  let currentTurn: { requestId: string; controller: AbortController; done: Promise<void> } | undefined
+  // Bumped by every message that interrupts the current turn. Messages are handled
+  // concurrently, so a turn only starts if nothing newer arrived while the
+  // previous one was being stopped - otherwise two turns could run at once.
+  let generation = 0
+  let isClosed = false
+
+  const send = (event: VoiceServerEvent) => {
+    if (!isClosed) {
+      transport.send(event)
+    }
+  }
+
+  const sendError = (message: string, errorCode: string, requestId = 'voice_session') => {
+    send({ type: 'error', error: { error: message, errorType: 'VoiceSessionError', errorCode, requestId } })
+  }
+
+  const start = (message: SessionConfig) => {
+    if (!message.context?.deviceId) {
+      sendError('Device ID is required for rate limiting', 'DEVICE_ID_REQUIRED')
+      return
+    }
+    if (message.provider && !isSupportedProvider(message.provider)) {
+      sendError(`Unsupported provider: ${message.provider}`, 'UNSUPPORTED_PROVIDER')
+      return
+    }
+    if (message.promptVariables !== undefined && !isPromptVariables(message.promptVariables)) {
+      sendError('promptVariables must be an object of strings, numbers or booleans', 'INVALID_MESSAGE')
+      return
+    }
+    if (!message.voice?.voiceId || !isTTSProvider(message.voice.provider)) {
+      sendError('voice.provider (openai, elevenlabs or hume) and voice.voiceId are required', 'INVALID_VOICE')
+      return
+    }
+    config = { ...message, context: { ...message.context, userId } }
+    history = message.previousMessages || []
+    send({ type: 'ready', protocolVersion: SSE_PROTOCOL_VERSION })
+  }
+
+  const runTurn = async (message: string, requestId: string, interrupted: AbortSignal) => {
+    if (!config) return
+    const { context = {}, promptType, voice } = config
+
+    // Each turn counts as a voice session, like a voice-mode gateway request
+    const rateLimit = await checkAndIncrementRateLimit(context.deviceId!, true, promptType, context.userId, clientIP)
+    if (!rateLimit.allowed) {
+      if (rateLimit.banned) {
+        sendError('Your account has been suspended for violating our terms of service', 'BANNED', requestId)
+        transport.close()
+        return
+      }
+      send({
+        type: 'error',
+        error: {
+          error: 'Voice session limit reached',
+          errorType: 'RateLimitError',
+          errorCode: 'RATE_LIMITED',
+          requestId,
+          context: { used: rateLimit.used, max: rateLimit.max }
+        }
+      })
+      return
+    }
+
+    // Blocked turns are left out of the session history. Flagged messages in the
+    // history the client started with are judged (and logged) only once.
+    const moderation = await moderateInput({
+      message,
+      previousMessages: history,
+      requestId,
+      promptType,
+      userId: context.userId,
+      deviceId: context.deviceId,
+      clientIP
+    })
+    if (moderation.action === 'block') {
+      send({
+        type: 'error',
+        error: {
+          error: 'Message not allowed',
+          errorType: 'ModerationError',
+          errorCode: 'CONTENT_BLOCKED',
+          requestId,
+          context: { categories: moderation.categories }
+        }
+      })
+      return
+    }
+    if (interrupted.aborted) {
+      await refundRateLimit(context.deviceId!, 'voice')
+      send({ type: 'cancelled', requestId, delivered: false })
+      return
+    }
+
+    // POST /api/ai-gateway/cancel works for voice turns too
+    const activeRequest = registerActiveRequest(requestId, {
+      userId: context.userId, // Verified when the connection was opened
+      deviceId: context.deviceId,
+      verified: true
+    })
+    const signal = AbortSignal.any([activeRequest.signal, interrupted])
+    const startTime = Date.now()
+    let route: ModelRoute | undefined
+    let promptTemplate: PromptTemplateRef | undefined
+    let experiment: ExperimentAssignment | null = null
+    try {
+      // Same tier model rules as the gateway
+      const modelRouter = await getModelRouter(promptType, context.userId)
+      route = modelRouter.route(config.provider, config.model)
+      const requestedModel = config.model || route.model
+      experiment = await assignExperiment(promptType, { deviceId: context.deviceId, userId: context.userId }, modelRouter)
+      if (experiment?.route) {
+        route = experiment.route
+      }
+
+      // The history keeps the app's prompt; a server-side template replaces it for each turn
+      const templated = await applyPromptTemplate(history, {
+        promptType,
+        coachId: context.coachId,
+        variables: config.promptVariables,
+        templateId: experiment?.promptTemplateId
+      })
+      promptTemplate = templated.template
+
+      if (context.userId) {
+        await trackAIRequest({
+          userId: context.userId,
+          provider: route.provider,
+          model: route.model,
+          promptType,
+          messageLength: message.length,
+          requestId,
+          context,
+          promptTemplate,
+          experiment: experiment || undefined
+        })
+      }
+
+      send({
+        type: 'start',
+        protocolVersion: SSE_PROTOCOL_VERSION,
+        requestId,
+        provider: route.provider,
+        model: route.model,
+        downgradedFrom: route.downgradedFrom
+      })
+      send({ type: 'status', status: 'thinking' })
+      if (moderation.action === 'warn') {
+        send({ type: 'moderation', action: 'warn', categories: moderation.categories })
+      }
+
+      const fallbackChain = (await getFallbackChain(promptType))
+        .map(target => modelRouter.route(target.provider, target.model))
+      const targets = [route, ...fallbackChain].map(target => ({ provider: target.provider, model: target.model }))
+      const { previousMessages: fittedMessages, compaction } = await fitToContextWindow(targets, {
+        message,
+        previousMessages: templated.previousMessages,
+        signal
+      }, { coachId: context.coachId })
+      if (compaction) {
+        history = [...history.filter(isAppSystemPrompt), ...fittedMessages.filter(m => !isAppSystemPrompt(m))]
+        send({
+          type: 'compaction',
+          summaryMessage: compaction.summaryMessage,
+          replacedMessageCount: compaction.replacedMessageCount
+        })
+      }
+
+      const speech = createSpeechPipeline({ ...voice, signal }, send)
+
+      const responseChunks: string[] = []
+      let firstTokenAt: number | undefined
+      const result: FallbackStreamResult = await streamWithFallback(
+        targets,
+        { message, previousMessages: fittedMessages, temperature: experiment?.temperature, signal },
+        {
+          onChunk: (chunk) => {
+            firstTokenAt ??= Date.now()
+            responseChunks.push(chunk)
+            send({ type: 'delta', text: chunk })
+            speech.push(chunk)
+            return true
+          }
+        }
+      )
+
+      const isCancelled = result.finishReason === 'cancelled'
+      await speech.finish()
+
+      const fullResponse = responseChunks.join('')
+      history = [...history, { role: 'user', content: message }]
+      if (fullResponse.length > 0) {
+        history.push({ role: 'assistant', content: fullResponse })
+      }
+
+      if (isCancelled) {
+        const delivered = responseChunks.length > 0
+        if (!delivered) {
+          await refundRateLimit(context.deviceId!, 'voice')
+        }
+        send({ type: 'cancelled', requestId, delivered })
+      } else {
+        send({ type: 'usage', usage: result.usage, tokensUsed: result.tokensUsed })
+        send({ type: 'done', finishReason: result.finishReason, provider: result.servedBy.provider, model: result.servedBy.model })
+      }
+
+      for (const usage of speech.usage()) {
+        await trackTTSUsage({ ...usage, userId: context.userId, requestId, deviceId: context.deviceId })
+      }
+      if (context.userId) {
+        await trackAIResponse({
+          userId: context.userId,
+          provider: result.servedBy.provider,
+          model: result.servedBy.model,
+          requestedProvider: config.provider || route.provider,
+          requestedModel,
+          fallbackAttempts: result.fallbackAttempts,
+          promptType,
+          responseLength: fullResponse.length,
+          tokensUsed: result.tokensUsed,
+          usage: result.usage,
+          latencyMs: Date.now() - startTime,
+          timeToFirstTokenMs: firstTokenAt && firstTokenAt - startTime,
+          fromCache: false,
+          requestId,
+          context,
+          cancelled: isCancelled,
+          promptTemplate,
+          experiment: experiment || undefined
+        })
+      }
+    } catch (error) {
+      console.error('❌ [Voice] Turn failed:', error)
+      const details = errorDetails(error, requestId, config, route)
+      send({ type: 'error', error: details })
+      if (context.userId) {
+        await trackAIError({
+          userId: context.userId,
+          provider: details.provider || 'unknown',
+          model: details.model || 'unknown',
+          promptType,
+          errorMessage: details.error,
+          errorCode: details.errorCode,
+          errorType: details.errorType,
+          stackTrace: (error as Error)?.stack?.substring(0, 500),
+          requestId,
+          context,
+          promptTemplate,
+          experiment: experiment || undefined
+        })
+      }
+    } finally {
+      activeRequest.release()
+    }
+  }
+
+  const interruptCurrentTurn = async () => {
+    while (currentTurn) {
+      const turn = currentTurn
+      turn.controller.abort()
+      await turn.done
+    }
+  }
+
+  return {
+    handleMessage: async (raw) => {
+      let message: VoiceClientMessage
+      try {
+        message = JSON.parse(raw)
+      } catch {
+        sendError('Messages must be JSON', 'INVALID_MESSAGE')
+        return
+      }
+
+      switch (message.type) {
+        case 'session.start':
+          generation++
+          if (currentTurn) {
+            await interruptCurrentTurn()
+          }
+          start(message)
+          return
+        case 'turn': {
+          if (!config) {
+            sendError('Send session.start before the first turn', 'SESSION_NOT_STARTED')
+            return
+          }
+          if (typeof message.message !== 'string' || message.message.trim().length === 0) {
+            sendError('Turn message is required', 'INVALID_MESSAGE')
+            return
+          }
+          // Barge-in: a new turn stops the answer that is still playing
+          const turnGeneration = ++generation
+          await interruptCurrentTurn()
+          if (turnGeneration !== generation || isClosed) {
+            return
+          }
+          const requestId = createRequestId('voice')
+          const controller = new AbortController()
+          const done = runTurn(message.message, requestId, controller.signal).finally(() => {
+            if (currentTurn?.requestId === requestId) {
+              currentTurn = undefined
+            }
+          })
+          currentTurn = { requestId, controller, done }
+          await done
+          return
+        }
+        case 'cancel':
+          generation++
+          await interruptCurrentTurn()
+          return
+        default:
+          sendError('Unknown message type', 'INVALID_MESSAGE')
+      }
+    },
+    close: () => {
+      isClosed = true
+      generation++
+      interruptCurrentTurn().catch((error) => console.error('❌ [Voice] Failed to stop the turn on close:', error))
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import type { IncomingMessage, Server } from 'http'
+import type { Duplex } from 'stream'
+import { createClient } from '@supabase/supabase-js'
+import { WebSocketServer, type WebSocket } from 'ws'
+import { createVoiceSession } from './voice-session'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// WebSocket transport for voice sessions. Next.js API routes can't accept an
+// upgrade themselves, so this hooks the 'upgrade' event of the HTTP server the
+// route runs on (or any local http.Server, e.g. a stand-in for testing).
+// Needs a long-lived Node server (next start or next dev) - Vercel functions
+// don't support WebSockets.
+// The upgrade needs a Supabase access token (Authorization: Bearer), like the
+// streaming gateway; the session runs as the verified user whatever the client
+// puts in session.start.
+
+export const VOICE_WEBSOCKET_PATH = '/api/ai-gateway/voice'
+
+const PING_INTERVAL_MS = 15000 // Same keepalive cadence as the SSE heartbeat
+const MAX_MESSAGE_BYTES = 1024 * 1024
+
+const attachedServers = new WeakSet<Server>()
+
+function getClientIP(req: IncomingMessage): string {
+  const forwarded = req.headers['x-forwarded-for']
+  const ip = forwarded ? (typeof forwarded === 'string' ? forwarded.split(',')[0] : forwarded[0]) : req.socket.remoteAddress
+  return ip || 'unknown'
+}
+
+// The verified user id, or undefined when the token is missing or invalid
+async function authenticate(req: IncomingMessage): Promise<string | undefined> {
+  const authHeader = req.headers.authorization
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return undefined
+  }
+  const { data: { user }, error } = await supabase.auth.getUser(authHeader.substring(7))
+  return error || !user ? undefined : user.id
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`)
+}
+
+function handleConnection(socket: WebSocket, req: IncomingMessage, userId: string) {
+  const session = createVoiceSession({
+    send: (event) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(event))
+      }
+    },
+    close: () => socket.close(1008, 'Access denied')
+  }, getClientIP(req), userId)
+
+  let isAlive = true
+  socket.on('pong', () => {
+    isAlive = true
+  })
+  const ping = setInterval(() => {
+    if (!isAlive) {
+      socket.terminate()
+      return
+    }
+    isAlive = false
+    socket.ping()
+  }, PING_INTERVAL_MS)
+
+  // Not awaited, so a new turn or a cancel can interrupt the one in progress
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) {
+      socket.send(JSON.stringify({
+        type: 'error',
+        error: { error: 'Binary messages are not supported', errorType: 'VoiceSessionError', errorCode: 'INVALID_MESSAGE', requestId: 'voice_session' }
+      }))
+      return
+    }
+    session.handleMessage(data.toString()).catch((error) => {
+      console.error('❌ [Voice] Failed to handle message:', error)
+    })
+  })
+
+  socket.on('close', () => {
+    clearInterval(ping)
+    session.close()
+  })
+  socket.on('error', (error) => {
+    console.error('❌ [Voice] WebSocket error:', error)
+  })
+}
+
+// Safe to call on every request; the handler is only added once per server
+export function attachVoiceWebSocketServer(server: Server) {
+  if (attachedServers.has(server)) {
+    return
+  }
+  attachedServers.add(server)
+
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES })
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost')
+    // Leave other upgrades (e.g. Next.js hot reload) alone
+    if (pathname !== VOICE_WEBSOCKET_PATH) {
+      return
+    }
+    // The socket has no error handler of its own until the upgrade completes
+    const onSocketError = (error: Error) => console.error('❌ [Voice] Socket error before upgrade:', error)
+    socket.on('error', onSocketError)
+    authenticate(req)
+      .then((userId) => {
+        socket.off('error', onSocketError)
+        if (!userId) {
+          rejectUpgrade(socket, 401, 'Unauthorized')
+          return
+        }
+        wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, req, userId))
+      })
+      .catch((error) => {
+        console.error('❌ [Voice] Could not verify the upgrade token:', error)
+        rejectUpgrade(socket, 500, 'Internal Server Error')
+      })
+  })
+  console.log(`🎙️ Voice WebSocket listening on ${VOICE_WEBSOCKET_PATH}`)
+}
@@ -1,5 +1,38 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
+import {
+  fitToContextWindow,
+  generateStructured,
+  getFallbackChain,
+  getModelRouter,
+  isSupportedProvider,
+  isToolResult,
+  type AIProviderName,
+  type JSONSchema,
+  type Message,
+  type ModelRoute,
+  type Tool
+} from '../../lib/ai-providers'
+import {
+  isServerTool,
+  streamWithServerTools,
+  type ToolLoopCallbacks,
+  type ToolLoopResult
+} from '../../lib/ai-tools'
+import { registerActiveRequest, type ActiveRequest } from '../../lib/ai-cancellation'
+import { assignExperiment, type ExperimentAssignment } from '../../lib/ai-experiments'
+import { trackAIError, trackAIRequest, trackAIResponse } from '../../lib/ai-tracking'
+import { startIdempotentRequest, type IdempotentRequest } from '../../lib/idempotency'
+import { moderateInput } from '../../lib/moderation'
+import { getClientIP, isBanned } from '../../lib/rate-limit'
+import {
+  applyPromptTemplate,
+  isPromptVariables,
+  type PromptTemplateRef,
+  type PromptVariables
+} from '../../lib/prompt-templates'
+import type { GatewayErrorDetails } from '../../lib/sse-protocol'
+import { createRequestId, openSSEStream, replaySSEStream, REPLAY_TTL_MS, type SSEStream } from '../../lib/sse-stream'
 
 // Vercel function timeout configuration with Fluid Compute (enabled by default)
 // Hobby: 300s default/max, Pro: 300s default/800s max, Enterprise: 300s default/800s max
@@ -17,52 +50,16 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 )
 
-// Banned users/devices/IPs - keep in sync with ai-gateway.ts
-const BANNED_DEVICES: string[] = [
-  'D0758F58-C953-40F7-9533-9DBBC4FB5FCB',
-  '2B0779F3-5542-41C7-9663-7ABA3609BF61',
-]
-
-const BANNED_USERS: string[] = [
-  '3ab1a756-cb96-49b0-b585-0f10efe631c1',
-  '4d6dc8e7-21b6-43dd-bd04-38a21124d8d2',
-  '3787eb48-5be0-49eb-9c97-58c6201cc074',
-]
-
-const BANNED_IPS: string[] = [
-  '99.25.48.67'
-]
-
-function getClientIP(req: NextApiRequest): string {
-  const forwarded = req.headers['x-forwarded-for']
-  const ip = forwarded ? (typeof forwarded === 'string' ? forwarded.split(',')[0] : forwarded[0]) : req.socket.remoteAddress
-  return ip || 'unknown'
-}
-
-interface Message {
-  role: 'user' | 'assistant' | 'system'
-  content: string
-}
-
-interface Tool {
-  name?: string
-  description?: string
-  parameters?: any
-  // OpenAI format has tools wrapped in a function object
-  function?: {
-    name: string
-    description: string
-    parameters: any
-  }
-}
-
 interface AIGatewayRequest {
   message: string
   previousMessages: Message[]
   promptType: string
-  provider?: 'openai' | 'anthropic'
+  provider?: AIProviderName
   model?: string
   tools?: Tool[]
+  serverTools?: string[] // Names of registered server-side tools the gateway may run itself
+  responseSchema?: JSONSchema // Return validated JSON matching this schema as a single result event
+  promptVariables?: PromptVariables // Values for {{name}} placeholders in the server-side prompt template
   context?: {
     userId?: string
     sessionId?: string
@@ -82,6 +79,13 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
+  let sseStream: SSEStream | undefined
+  let activeRequest: ActiveRequest | undefined
+  let idempotency: IdempotentRequest | undefined
+  let route: ModelRoute | undefined
+  let promptTemplate: PromptTemplateRef | undefined
+  let experiment: ExperimentAssignment | null = null
+
   try {
     // Extract user token from Authorization header
     const authHeader = req.headers.authorization
@@ -97,6 +101,19 @@ export default async function handler(
       return res.status(401).json({ error: 'Invalid authentication token' })
     }
 
+    // Reconnecting client: replay the missed events instead of calling the model again
+    const lastEventId = req.headers['last-event-id']
+    if (typeof lastEventId === 'string' && lastEventId.length > 0) {
+      const replayed = await replaySSEStream(req, res, lastEventId, { userId: user.id })
+      if (!replayed) {
+        return res.status(410).json({
+          error: 'Stream is no longer available',
+          details: 'Send the request again without Last-Event-ID'
+        })
+      }
+      return
+    }
+
     // Parse request body
     const body: AIGatewayRequest = req.body
     const {
@@ -106,30 +123,39 @@ export default async function handler(
       provider = 'openai',
       model,
       tools = [],
+      serverTools = [],
+      responseSchema,
+      promptVariables,
       context = {}
     } = body
 
-    if (!message) {
+    // A tool-result continuation carries everything in previousMessages
+    const lastMessage = previousMessages[previousMessages.length - 1]
+    const isToolContinuation = lastMessage !== undefined && isToolResult(lastMessage)
+    if (message === undefined || message === null || (message === '' && !isToolContinuation)) {
       return res.status(400).json({ error: 'Message is required' })
     }
 
-    // Get client IP and device ID
-    const clientIP = getClientIP(req)
-    const deviceId = context.deviceId || 'unknown'
+    if (!isSupportedProvider(provider)) {
+      return res.status(400).json({ error: `Unsupported provider: ${provider}` })
+    }
 
-    // Check bans
-    if (BANNED_IPS.includes(clientIP)) {
-      console.log(`🚫 Banned IP attempted streaming access: ${clientIP}`)
-      return res.status(403).json({ error: 'Access denied' })
+    if (promptVariables !== undefined && !isPromptVariables(promptVariables)) {
+      return res.status(400).json({ error: 'promptVariables must be an object of strings, numbers or booleans' })
     }
 
-    if (deviceId !== 'unknown' && BANNED_DEVICES.includes(deviceId)) {
-      console.log(`🚫 Banned device attempted streaming access - Device: ${deviceId}, IP: ${clientIP}`)
-      return res.status(403).json({ error: 'Access denied' })
+    const unknownServerTools = serverTools.filter(name => !isServerTool(name))
+    if (unknownServerTools.length > 0) {
+      return res.status(400).json({ error: `Unknown server tools: ${unknownServerTools.join(', ')}` })
     }
 
-    if (BANNED_USERS.includes(user.id)) {
-      console.log(`🚫 Banned user attempted streaming access - User: ${user.id}, IP: ${clientIP}`)
+    // Get client IP and device ID
+    const clientIP = getClientIP(req)
+    const deviceId = context.deviceId || 'unknown'
+
+    // Check bans (hardcoded lists and the banned_* tables, including automatic bans)
+    if (await isBanned(deviceId, user.id, clientIP)) {
+      console.log(`🚫 Banned access attempted streaming - User: ${user.id}, Device: ${deviceId}, IP: ${clientIP}`)
       return res.status(403).json({ error: 'Access denied' })
     }
 
@@ -153,90 +179,211 @@ export default async function handler(
     }
 
     // Generate request ID
-    const requestId = `req_${Date.now()}_${Math.random().toString(36).substring(7)}`
+    const requestId = createRequestId()
+
+    // A retried request with the same Idempotency-Key replays the original stream
+    // instead of calling the model again
+    const idempotencyResult = await startIdempotentRequest(req, res, 'ai-gateway-streaming', {
+      owner: { userId: user.id, deviceId: context.deviceId },
+      requestId,
+      ttlMs: REPLAY_TTL_MS,
+      attach: (originalRequestId) => replaySSEStream(req, res, `${originalRequestId}:0`, { userId: user.id })
+    })
+    if (idempotencyResult === 'handled') {
+      return
+    }
+    idempotency = idempotencyResult
+
+    // Check what the user wrote before it reaches a provider
+    const moderation = await moderateInput({
+      message,
+      previousMessages,
+      requestId,
+      promptType,
+      userId: user.id,
+      deviceId: context.deviceId,
+      clientIP
+    })
+    if (moderation.action === 'block') {
+      return res.status(400).json({
+        error: 'Message not allowed',
+        errorCode: 'CONTENT_BLOCKED',
+        details: 'This message goes against our content guidelines',
+        categories: moderation.categories
+      })
+    }
+
     const startTime = Date.now()
 
+    // POST /api/ai-gateway/cancel with this id aborts the upstream call
+    activeRequest = registerActiveRequest(requestId, { userId: user.id, deviceId: context.deviceId, verified: true })
+
+    // The user's tier decides which models are allowed; other models are downgraded
+    const modelRouter = await getModelRouter(promptType, user.id)
+    route = modelRouter.route(body.provider, model)
+    const requestedModel = model || route.model
+    if (route.downgradedFrom) {
+      console.log(`⬇️ ${route.downgradedFrom} is not allowed on the ${route.tier} tier, using ${route.model}`)
+    }
+
+    // A/B experiments may swap the model, temperature or prompt template
+    experiment = await assignExperiment(promptType, { deviceId: context.deviceId, userId: user.id }, modelRouter)
+    if (experiment?.route) {
+      route = experiment.route
+    }
+
+    // A server-side template for this promptType/coach replaces the app's system prompt
+    const templated = await applyPromptTemplate(previousMessages, {
+      promptType,
+      coachId: context.coachId,
+      variables: promptVariables,
+      templateId: experiment?.promptTemplateId
+    })
+    promptTemplate = templated.template
+
     // Log AI request to Supabase
     await trackAIRequest({
       userId: user.id,
-      provider,
-      model: model || getDefaultModel(provider),
+      provider: route.provider,
+      model: route.model,
       promptType,
       messageLength: message.length,
       requestId,
-      context
-    })
-
-    // Set SSE headers
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream; charset=utf-8',
-      'Cache-Control': 'no-cache, no-transform',
-      'Connection': 'keep-alive',
-      'X-Accel-Buffering': 'no' // Disable buffering in nginx
+      context,
+      promptTemplate,
+      experiment: experiment || undefined
     })
 
-    // Connection health check - detect client disconnects
-    let isClientConnected = true
-    req.on('close', () => {
-      isClientConnected = false
-      console.log('Client disconnected, stopping stream')
+    // Events are buffered so a dropped client can resume with Last-Event-ID
+    sseStream = openSSEStream(req, res, requestId, { userId: user.id })
+    const stream = sseStream
+    stream.send({
+      type: 'start',
+      protocolVersion: stream.protocolVersion,
+      requestId,
+      provider: route.provider,
+      model: route.model,
+      downgradedFrom: route.downgradedFrom
     })
+    // Lets the client show progress before the first token (the heartbeat keeps the connection open)
+    stream.send({ type: 'status', status: 'thinking' })
+    if (moderation.action === 'warn') {
+      stream.send({ type: 'moderation', action: 'warn', categories: moderation.categories })
+    }
 
     // Stream response with array for better memory efficiency
     const responseChunks: string[] = []
-    let tokensUsed: number | undefined
-    let streamAborted = false
-
-    if (provider === 'openai') {
-      const result = await streamOpenAI(
-        message,
-        previousMessages,
-        model,
-        tools,
-        (chunk) => {
-          if (!isClientConnected) {
-            streamAborted = true
-            return false // Signal to stop streaming
-          }
-          responseChunks.push(chunk)
-          res.write(`data: ${JSON.stringify({ chunk })}\n\n`)
-          return true
-        },
-        (toolInvocation) => {
-          if (isClientConnected) {
-            res.write(`data: ${JSON.stringify({ toolInvocation })}\n\n`)
-          }
-        }
-      )
-      tokensUsed = result.tokensUsed
-    } else if (provider === 'anthropic') {
-      const result = await streamAnthropic(
-        message,
-        previousMessages,
-        model,
-        tools,
-        (chunk) => {
-          if (!isClientConnected) {
-            streamAborted = true
-            return false // Signal to stop streaming
-          }
-          responseChunks.push(chunk)
-          res.write(`data: ${JSON.stringify({ chunk })}\n\n`)
-          return true
-        },
-        (toolInvocation) => {
-          if (isClientConnected) {
-            res.write(`data: ${JSON.stringify({ toolInvocation })}\n\n`)
+
+    // Fall back to other providers on retryable errors before the first token,
+    // within the same tier rules as the requested model
+    const fallbackChain = (await getFallbackChain(promptType))
+      .map(target => modelRouter.route(target.provider, target.model))
+
+    const targets = [route, ...fallbackChain].map(target => ({ provider: target.provider, model: target.model }))
+
+    // Compact the oldest turns into a summary when the history outgrows the model's context
+    const { previousMessages: fittedMessages, compaction } = await fitToContextWindow(targets, {
+      message,
+      previousMessages: templated.previousMessages,
+      tools,
+      signal: activeRequest.signal
+    }, { coachId: context.coachId })
+    if (compaction) {
+      stream.send({
+        type: 'compaction',
+        summaryMessage: compaction.summaryMessage,
+        replacedMessageCount: compaction.replacedMessageCount
+      })
+      await trackAIResponse({
+        userId: user.id,
+        provider: compaction.servedBy.provider,
+        model: compaction.servedBy.model,
+        promptType: 'summarizeConversation',
+        responseLength: compaction.summaryMessage.content.length,
+        promptTemplate: compaction.template,
+        tokensUsed: compaction.usage?.totalTokens,
+        usage: compaction.usage,
+        latencyMs: compaction.latencyMs,
+        fromCache: false,
+        requestId,
+        context
+      })
+    }
+
+    const streamRequest = {
+      message,
+      previousMessages: fittedMessages,
+      tools,
+      temperature: experiment?.temperature,
+      signal: activeRequest.signal
+    }
+    const toolContext = { userId: user.id, deviceId: context.deviceId }
+    let hasToolInvocations = false
+    let firstTokenAt: number | undefined
+    const markFirstToken = () => {
+      firstTokenAt ??= Date.now()
+    }
+    const callbacks: ToolLoopCallbacks = {
+      // Keep generating after a disconnect so a reconnect can get the full answer
+      onChunk: (chunk) => {
+        markFirstToken()
+        responseChunks.push(chunk)
+        stream.send({ type: 'delta', text: chunk })
+        return true
+      },
+      onToolInvocation: (toolInvocation) => {
+        markFirstToken()
+        hasToolInvocations = true
+        stream.send({ type: 'tool_call', toolCall: toolInvocation })
+      },
+      onToolResult: (toolResult) => {
+        stream.send({ type: 'tool_result', toolResult })
+      }
+    }
+
+    // Server tool calls are run here and fed back to the model within this stream
+    let result: ToolLoopResult
+    if (responseSchema) {
+      // Structured mode sends one validated result event instead of text chunks
+      const structured = await generateStructured(
+        { ...streamRequest, responseSchema },
+        (attemptRequest, attemptCallbacks) => streamWithServerTools(
+          targets, attemptRequest, serverTools, toolContext, {
+            ...callbacks,
+            onChunk: (chunk) => {
+              markFirstToken()
+              return attemptCallbacks.onChunk?.(chunk)
+            }
           }
-        }
+        )
       )
-      tokensUsed = result.tokensUsed
+      result = structured.result
+      if (result.finishReason !== 'cancelled') {
+        responseChunks.push(JSON.stringify(structured.data))
+        stream.send({ type: 'result', result: structured.data })
+      }
+    } else {
+      result = await streamWithServerTools(targets, streamRequest, serverTools, toolContext, callbacks)
     }
-
-    // Send completion event if client still connected
-    if (isClientConnected && !streamAborted) {
-      res.write(`data: [DONE]\n\n`)
+    const tokensUsed = result.tokensUsed
+    const isCancelled = result.finishReason === 'cancelled'
+
+    if (isCancelled) {
+      // Final event instead of done so the client knows the answer is partial
+      const delivered = responseChunks.length > 0 || hasToolInvocations
+      await stream.cancel({ type: 'cancelled', requestId, delivered })
+    } else {
+      stream.send({ type: 'usage', usage: result.usage, tokensUsed })
+      // Send completion event (buffered for replay even if the client left)
+      await stream.finish({
+        type: 'done',
+        finishReason: result.finishReason,
+        provider: result.servedBy.provider,
+        model: result.servedBy.model
+      })
     }
+    // Retries replay the buffered stream
+    await idempotency.complete()
 
     const latencyMs = Date.now() - startTime
     const fullResponse = responseChunks.join('') // Efficient join at the end
@@ -244,34 +391,38 @@ export default async function handler(
     // Log AI response to Supabase (even if client disconnected, for analytics)
     await trackAIResponse({
       userId: user.id,
-      provider,
-      model: model || getDefaultModel(provider),
+      provider: result.servedBy.provider,
+      model: result.servedBy.model,
+      requestedProvider: body.provider || route.provider,
+      requestedModel,
+      fallbackAttempts: result.fallbackAttempts,
       promptType,
       responseLength: fullResponse.length,
       tokensUsed,
+      usage: result.usage,
       latencyMs,
+      timeToFirstTokenMs: firstTokenAt && firstTokenAt - startTime,
       fromCache: false,
       requestId,
       context,
-      streamAborted,
-      messageLength: message.length,
-      previousMessagesCount: previousMessages.length
+      streamAborted: result.finishReason === 'aborted',
+      cancelled: isCancelled,
+      promptTemplate,
+      experiment: experiment || undefined
     })
 
-    res.end()
-
   } catch (error: any) {
     console.error('AI Gateway Streaming Error:', error)
 
     // Create detailed error response for Swift app
-    const errorResponse = {
+    const errorResponse: GatewayErrorDetails = {
       error: error.message || 'Unknown error occurred',
       errorType: error.name || 'UnknownError',
       errorCode: error.code || 'UNKNOWN',
-      provider: req.body.provider || 'unknown',
-      model: req.body.model || 'unknown',
+      provider: route?.provider || req.body.provider || 'unknown',
+      model: route?.model || req.body.model || 'unknown',
       promptType: req.body.promptType || 'unknown',
-      requestId: `req_${Date.now()}_error`,
+      requestId: sseStream?.requestId || `req_${Date.now()}_error`,
       timestamp: new Date().toISOString(),
       // Additional context for debugging
       context: {
@@ -285,391 +436,35 @@ export default async function handler(
     }
 
     // Send structured error event to Swift app
-    res.write(`data: ${JSON.stringify(errorResponse)}\n\n`)
-    res.end()
+    if (sseStream) {
+      await sseStream.fail({ type: 'error', error: errorResponse })
+    } else {
+      res.write(`data: ${JSON.stringify(errorResponse)}\n\n`)
+      res.end()
+    }
 
     // Log detailed error to Supabase
     try {
       await trackAIError({
         userId: req.body.context?.userId || 'unknown',
-        provider: req.body.provider || 'unknown',
-        model: req.body.model || getDefaultModel(req.body.provider || 'openai'),
+        provider: route?.provider || req.body.provider || 'unknown',
+        model: route?.model || req.body.model || 'unknown',
         promptType: req.body.promptType || 'unknown',
         errorType: error.name || 'UnknownError',
         errorMessage: error.message || 'Unknown error occurred',
         errorCode: error.code || 'UNKNOWN',
         requestId: errorResponse.requestId,
         context: req.body.context,
-        stackTrace: error.stack?.substring(0, 500) // First 500 chars of stack
+        stackTrace: error.stack?.substring(0, 500), // First 500 chars of stack
+        promptTemplate,
+        experiment: experiment || undefined
       })
     } catch (logError) {
       console.error('Failed to log error to Supabase:', logError)
     }
-  }
-}
-
-// Helper function to stream from OpenAI
-async function streamOpenAI(
-  message: string,
-  previousMessages: Message[],
-  model?: string,
-  tools?: Tool[],
-  onChunk?: (chunk: string) => boolean | void, // Returns false to abort
-  onToolInvocation?: (invocation: any) => void
-): Promise<{ tokensUsed?: number }> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    throw new Error('OpenAI API key not configured')
-  }
-
-  const messages = [
-    ...previousMessages.map(m => ({ role: m.role, content: m.content })),
-    { role: 'user', content: message }
-  ]
-
-  const requestBody: any = {
-    model: model || 'gpt-4o',
-    messages,
-    stream: true
-  }
-
-  if (tools && tools.length > 0) {
-    requestBody.tools = tools.map(tool => ({
-      type: 'function',
-      function: {
-        name: tool.name,
-        description: tool.description,
-        parameters: tool.parameters
-      }
-    }))
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestBody)
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`)
-  }
-
-  if (!response.body) {
-    throw new Error('No response body from OpenAI')
-  }
-
-  // Parse SSE stream from OpenAI with timeout protection
-  const reader = response.body.getReader()
-  const decoder = new TextDecoder()
-  let buffer = ''
-  let accumulatedToolCall: any = {}
-  let toolCallIndex: number | null = null
-
-  // Streaming timeout: 280 seconds (leave 20s buffer for Vercel's 300s limit)
-  const streamTimeout = 280000
-  const startTime = Date.now()
-
-  while (true) {
-    // Check timeout
-    if (Date.now() - startTime > streamTimeout) {
-      console.error('Stream timeout exceeded, aborting')
-      await reader.cancel()
-      throw new Error('Stream timeout: Response took too long')
-    }
-
-    const { done, value } = await reader.read()
-    if (done) break
-
-    buffer += decoder.decode(value, { stream: true })
-    const lines = buffer.split('\n')
-    buffer = lines.pop() || ''
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.substring(6).trim()
-        if (data === '[DONE]') continue
-
-        try {
-          const parsed = JSON.parse(data)
-          const delta = parsed.choices[0]?.delta
-
-          if (!delta) continue
-
-          // Handle text chunks
-          if (delta.content) {
-            const shouldContinue = onChunk?.(delta.content)
-            if (shouldContinue === false) {
-              // Client disconnected, abort stream
-              await reader.cancel()
-              return { tokensUsed: undefined }
-            }
-          }
-
-          // Handle tool calls
-          if (delta.tool_calls) {
-            for (const toolCall of delta.tool_calls) {
-              const index = toolCall.index
-              if (index !== undefined) {
-                toolCallIndex = index
-                if (toolCall.function?.name) {
-                  accumulatedToolCall.name = toolCall.function.name
-                  accumulatedToolCall.arguments = ''
-                }
-                if (toolCall.function?.arguments) {
-                  accumulatedToolCall.arguments = (accumulatedToolCall.arguments || '') + toolCall.function.arguments
-                }
-              }
-            }
-          }
-
-          // Check if tool call is complete
-          if (parsed.choices[0]?.finish_reason === 'tool_calls' && accumulatedToolCall.name) {
-            try {
-              const args = JSON.parse(accumulatedToolCall.arguments || '{}')
-              const invocation = {
-                id: `tool_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-                toolName: accumulatedToolCall.name,
-                arguments: args,
-                timestamp: new Date().toISOString()
-              }
-              onToolInvocation?.(invocation)
-              accumulatedToolCall = {}
-              toolCallIndex = null
-            } catch (e) {
-              console.error('Failed to parse tool arguments:', e)
-            }
-          }
-        } catch (e) {
-          console.error('Failed to parse SSE line:', e)
-        }
-      }
-    }
-  }
-
-  return { tokensUsed: undefined } // OpenAI doesn't provide token count in streaming
-}
-
-// Helper function to stream from Anthropic
-async function streamAnthropic(
-  message: string,
-  previousMessages: Message[],
-  model?: string,
-  tools?: Tool[],
-  onChunk?: (chunk: string) => boolean | void, // Returns false to abort
-  onToolInvocation?: (invocation: any) => void
-): Promise<{ tokensUsed?: number }> {
-  const apiKey = process.env.ANTHROPIC_API_KEY
-  if (!apiKey) {
-    throw new Error('Anthropic API key not configured')
-  }
-
-  // Anthropic requires system message separately
-  const systemMessage = previousMessages.find(m => m.role === 'system')
-  const conversationMessages = previousMessages.filter(m => m.role !== 'system')
-
-  const messages = [
-    ...conversationMessages.map(m => ({ role: m.role, content: m.content })),
-    { role: 'user', content: message }
-  ]
-
-  const requestBody: any = {
-    model: model || 'claude-sonnet-4-5-20250929',
-    max_tokens: 4096,
-    messages,
-    stream: true
-  }
-
-  if (systemMessage) {
-    requestBody.system = systemMessage.content
-  }
-
-  if (tools && tools.length > 0) {
-    requestBody.tools = tools.map(tool => {
-      // Handle both OpenAI format (nested function) and direct format
-      const toolData = tool.function || tool
-      return {
-        name: toolData.name,
-        description: toolData.description,
-        input_schema: toolData.parameters
-      }
-    })
-  }
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestBody)
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(`Anthropic API error: ${error.error?.message || response.statusText}`)
-  }
-
-  if (!response.body) {
-    throw new Error('No response body from Anthropic')
-  }
-
-  // Parse SSE stream from Anthropic with timeout protection
-  const reader = response.body.getReader()
-  const decoder = new TextDecoder()
-  let buffer = ''
-  let accumulatedToolUse: any = {}
-
-  // Streaming timeout: 280 seconds (leave 20s buffer for Vercel's 300s limit)
-  const streamTimeout = 280000
-  const startTime = Date.now()
-
-  while (true) {
-    // Check timeout
-    if (Date.now() - startTime > streamTimeout) {
-      console.error('Stream timeout exceeded, aborting')
-      await reader.cancel()
-      throw new Error('Stream timeout: Response took too long')
-    }
-
-    const { done, value } = await reader.read()
-    if (done) break
-
-    buffer += decoder.decode(value, { stream: true })
-    const lines = buffer.split('\n')
-    buffer = lines.pop() || ''
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.substring(6).trim()
-
-        try {
-          const parsed = JSON.parse(data)
-
-          // Handle text deltas
-          if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
-            const shouldContinue = onChunk?.(parsed.delta.text)
-            if (shouldContinue === false) {
-              // Client disconnected, abort stream
-              await reader.cancel()
-              return { tokensUsed: undefined }
-            }
-          }
-
-          // Handle tool use start
-          if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
-            accumulatedToolUse.name = parsed.content_block.name
-            accumulatedToolUse.id = parsed.content_block.id
-            accumulatedToolUse.input = ''
-          }
-
-          // Handle tool use delta
-          if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'input_json_delta') {
-            accumulatedToolUse.input += parsed.delta.partial_json
-          }
-
-          // Handle tool use complete
-          if (parsed.type === 'content_block_stop' && accumulatedToolUse.name) {
-            try {
-              const args = JSON.parse(accumulatedToolUse.input || '{}')
-              const invocation = {
-                id: accumulatedToolUse.id || `tool_${Date.now()}`,
-                toolName: accumulatedToolUse.name,
-                arguments: args,
-                timestamp: new Date().toISOString()
-              }
-              onToolInvocation?.(invocation)
-              accumulatedToolUse = {}
-            } catch (e) {
-              console.error('Failed to parse tool input:', e)
-            }
-          }
-        } catch (e) {
-          console.error('Failed to parse Anthropic SSE line:', e)
-        }
-      }
-    }
-  }
-
-  return { tokensUsed: undefined }
-}
-
-// Helper function to get default model
-function getDefaultModel(provider: string): string {
-  return provider === 'openai' ? 'gpt-4o' : 'claude-sonnet-4-5-20250929'
-}
-
-// Tracking functions
-async function trackAIRequest(data: any) {
-  try {
-    await supabase.from('ai_interactions').insert({
-      user_id: data.userId,
-      provider: data.provider,
-      model: data.model,
-      prompt_type: data.promptType,
-      interaction_type: data.promptType || 'conversation',
-      message_length: data.messageLength,
-      request_id: data.requestId,
-      session_id: data.context?.sessionId,
-      coach_id: data.context?.coachId,
-      feature_name: data.context?.featureName,
-      status: 'pending',
-      timestamp: new Date().toISOString()
-    })
-  } catch (error) {
-    console.error('Failed to track AI request:', error)
-  }
-}
-
-async function trackAIResponse(data: any) {
-  try {
-    await supabase.from('ai_interactions').insert({
-      user_id: data.userId,
-      provider: data.provider,
-      model: data.model,
-      prompt_type: data.promptType,
-      interaction_type: data.promptType || 'conversation',
-      response_length: data.responseLength,
-      tokens_used: data.tokensUsed,
-      response_time_ms: data.latencyMs,
-      from_cache: data.fromCache,
-      stream_aborted: data.streamAborted || false,
-      request_id: data.requestId,
-      session_id: data.context?.sessionId,
-      coach_id: data.context?.coachId,
-      feature_name: data.context?.featureName,
-      status: 'success',
-      timestamp: new Date().toISOString()
-    })
-  } catch (error) {
-    console.error('Failed to track AI response:', error)
-  }
-}
-
-async function trackAIError(data: any) {
-  try {
-    await supabase.from('ai_interactions').insert({
-      user_id: data.userId,
-      provider: data.provider,
-      model: data.model,
-      prompt_type: data.promptType,
-      interaction_type: data.promptType || 'conversation',
-      error_message: data.errorMessage,
-      error_code: data.errorCode,
-      error_category: data.errorType,
-      stack_trace: data.stackTrace,
-      request_id: data.requestId,
-      session_id: data.context?.sessionId,
-      coach_id: data.context?.coachId,
-      feature_name: data.context?.featureName,
-      status: 'error',
-      timestamp: new Date().toISOString()
-    })
-  } catch (error) {
-    console.error('Failed to track AI error to Supabase:', error)
+  } finally {
+    activeRequest?.release()
+    // Failed and rejected requests free the key so a retry runs again
+    await idempotency?.release()
   }
 }
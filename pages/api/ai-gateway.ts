@@ -1,5 +1,43 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
+import {
+  fitToContextWindow,
+  generateStructured,
+  getFallbackChain,
+  getModelRouter,
+  isSupportedProvider,
+  redactApiKey,
+  validateApiKey,
+  type AIProviderName,
+  type JSONSchema,
+  type Message,
+  type ModelRoute,
+  type Tool,
+  type ToolInvocation
+} from '../../lib/ai-providers'
+import {
+  isServerTool,
+  streamWithServerTools,
+  type ServerToolResult,
+  type ToolLoopCallbacks,
+  type ToolLoopResult
+} from '../../lib/ai-tools'
+import { registerActiveRequest, type ActiveRequest } from '../../lib/ai-cancellation'
+import { assignExperiment, type ExperimentAssignment } from '../../lib/ai-experiments'
+import { trackAIError, trackAIRequest, trackAIResponse, trackTTSUsage } from '../../lib/ai-tracking'
+import { verifyBearerToken } from '../../lib/auth'
+import { startIdempotentRequest, type IdempotentRequest } from '../../lib/idempotency'
+import { moderateInput } from '../../lib/moderation'
+import {
+  applyPromptTemplate,
+  isPromptVariables,
+  type PromptTemplateRef,
+  type PromptVariables
+} from '../../lib/prompt-templates'
+import { checkAndIncrementRateLimit, getClientIP, refundRateLimit } from '../../lib/rate-limit'
+import type { AudioEvent, GatewayErrorDetails } from '../../lib/sse-protocol'
+import { createRequestId, openSSEStream, replaySSEStream, REPLAY_TTL_MS, type SSEStream } from '../../lib/sse-stream'
+import { createSpeechPipeline, isTTSProvider, type TTSProviderName } from '../../lib/tts'
 
 // Vercel function timeout configuration with Fluid Compute (enabled by default)
 // Hobby: 300s default/max, Pro: 300s default/800s max, Enterprise: 300s default/800s max
@@ -17,31 +55,20 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 )
 
-interface Message {
-  role: 'user' | 'assistant' | 'system'
-  content: string
-}
-
-interface Tool {
-  name?: string
-  description?: string
-  parameters?: any
-  // OpenAI format has tools wrapped in a function object
-  function?: {
-    name: string
-    description: string
-    parameters: any
-  }
-}
-
 interface AIGatewayRequest {
   message: string
   previousMessages: Message[]
   promptType: string
-  provider?: 'openai' | 'anthropic'
+  provider?: AIProviderName
   model?: string
   tools?: Tool[]
-  userApiKey?: string // User's own OpenAI/Anthropic API key
+  serverTools?: string[] // Names of registered server-side tools the gateway may run itself (signed-in users only)
+  responseSchema?: JSONSchema // Return validated JSON matching this schema as a single result event
+  promptVariables?: PromptVariables // Values for {{name}} placeholders in the server-side prompt template
+  stream?: boolean // false returns one JSON body instead of SSE (also via Accept: application/json)
+  // Speak the answer: each sentence is synthesized as it completes and sent as an audio event
+  speak?: { provider: TTSProviderName; voiceId: string; speed?: number; withTimestamps?: boolean }
+  userApiKey?: string // User's own key for the chosen provider (BYOK) - never logged or stored
   imagesData?: string[] // Array of base64-encoded images for vision/OCR
   imageMediaType?: string // MIME type e.g. "image/jpeg"
   context?: {
@@ -55,335 +82,13 @@ interface AIGatewayRequest {
   }
 }
 
-// Rate limiting defaults (will be overridden by database values)
-const DEFAULT_VOICE_LIMIT = 3
-const DEFAULT_TEXT_LIMIT = 100
-
-// Helper to fetch global settings from database
-async function getGlobalLimits(): Promise<{ voiceLimit: number; textLimit: number }> {
-  try {
-    const { data } = await supabase
-      .from('global_settings')
-      .select('key, value')
-      .in('key', ['default_text_limit', 'default_voice_limit'])
-
-    const settingsMap = new Map(data?.map(s => [s.key, parseInt(s.value)]) || [])
-    return {
-      textLimit: settingsMap.get('default_text_limit') || DEFAULT_TEXT_LIMIT,
-      voiceLimit: settingsMap.get('default_voice_limit') || DEFAULT_VOICE_LIMIT
-    }
-  } catch (error) {
-    console.error('Failed to fetch global limits:', error)
-    return { voiceLimit: DEFAULT_VOICE_LIMIT, textLimit: DEFAULT_TEXT_LIMIT }
-  }
-}
-
-// Hardcoded banned users/devices list - KEEP THIS for active threats
-const BANNED_DEVICES: string[] = [
-  'D0758F58-C953-40F7-9533-9DBBC4FB5FCB', // Device used by repeat abuser (Nigger/Gay Jew Boy Nigga)
-  '2B0779F3-5542-41C7-9663-7ABA3609BF61', // Device used by repeat abuser (jewish circumcised boy)
-]
-
-const BANNED_USERS: string[] = [
-  '3ab1a756-cb96-49b0-b585-0f10efe631c1', // User: Nigga - abusing API (deleted account)
-  '4d6dc8e7-21b6-43dd-bd04-38a21124d8d2', // User: Gay Jew Boy Nigga - same abuser, new account
-  '3787eb48-5be0-49eb-9c97-58c6201cc074', // User: jewish circumcised boy - same abuser, 3rd account
-]
-
-// Banned IPs - add IP addresses here to ban
-const BANNED_IPS: string[] = [
-  // IPs will be added when we detect repeat offenders
-  '99.25.48.67'
-]
-
-// Rate limiting helper functions
-// Helper to get client IP from request
-function getClientIP(req: NextApiRequest): string {
-  const forwarded = req.headers['x-forwarded-for']
-  const ip = forwarded ? (typeof forwarded === 'string' ? forwarded.split(',')[0] : forwarded[0]) : req.socket.remoteAddress
-  return ip || 'unknown'
-}
-
-async function checkAndIncrementRateLimit(
-  deviceId: string,
-  isVoiceMode: boolean,
-  promptType?: string,
-  userId?: string,
-  clientIP?: string
-): Promise<{ allowed: boolean; limitType?: 'voice' | 'text'; used?: number; max?: number; banned?: boolean }> {
-  // Fetch global limits from database
-  const { voiceLimit: VOICE_LIMIT, textLimit: TEXT_LIMIT } = await getGlobalLimits()
-
-  // Check hardcoded IP bans (for active threats)
-  if (clientIP && BANNED_IPS.includes(clientIP)) {
-    console.log(`🚫 Banned IP attempted access (hardcoded): ${clientIP}`)
-    return { allowed: false, limitType: 'text', used: 0, max: 0, banned: true }
-  }
-
-  // Check database IP bans
-  if (clientIP) {
-    try {
-      const { data: ipBan } = await supabase
-        .from('banned_ips')
-        .select('ip_address')
-        .eq('ip_address', clientIP)
-        .single()
-      
-      if (ipBan) {
-        console.log(`🚫 Banned IP attempted access (database): ${clientIP}`)
-        await supabase.from('banned_access_attempts').insert({
-          device_id: deviceId,
-          user_id: userId || null,
-          ip_address: clientIP,
-          ban_type: 'ip',
-          attempted_at: new Date().toISOString()
-        })
-        return { allowed: false, limitType: 'text', used: 0, max: 0, banned: true }
-      }
-    } catch (e) {
-      console.error('Error checking IP ban:', e)
-    }
-  }
-
-  // Check hardcoded device bans (for active threats)
-  if (BANNED_DEVICES.includes(deviceId)) {
-    console.log(`🚫 Banned device attempted access (hardcoded) - Device: ${deviceId}, IP: ${clientIP}, User: ${userId || 'unknown'}`)
-    
-    try {
-      await supabase.from('banned_access_attempts').insert({
-        device_id: deviceId,
-        user_id: userId || null,
-        ip_address: clientIP,
-        ban_type: 'device',
-        attempted_at: new Date().toISOString()
-      })
-    } catch (e) {
-      console.error('Failed to log banned attempt:', e)
-    }
-    
-    return { allowed: false, limitType: 'text', used: 0, max: 0, banned: true }
-  }
-
-  // Check database device bans
-  try {
-    const { data: deviceBan } = await supabase
-      .from('banned_devices')
-      .select('device_id')
-      .eq('device_id', deviceId)
-      .single()
-    
-    if (deviceBan) {
-      console.log(`🚫 Banned device attempted access (database) - Device: ${deviceId}, IP: ${clientIP}, User: ${userId || 'unknown'}`)
-      
-      await supabase.from('banned_access_attempts').insert({
-        device_id: deviceId,
-        user_id: userId || null,
-        ip_address: clientIP,
-        ban_type: 'device',
-        attempted_at: new Date().toISOString()
-      })
-      
-      return { allowed: false, limitType: 'text', used: 0, max: 0, banned: true }
-    }
-  } catch (e) {
-    console.error('Error checking device ban:', e)
-  }
-  
-  // Check hardcoded user bans (for active threats)
-  if (userId && BANNED_USERS.includes(userId)) {
-    console.log(`🚫 Banned user attempted access (hardcoded) - User: ${userId}, IP: ${clientIP}, Device: ${deviceId}`)
-    
-    try {
-      await supabase.from('banned_access_attempts').insert({
-        device_id: deviceId,
-        user_id: userId,
-        ip_address: clientIP,
-        ban_type: 'user',
-        attempted_at: new Date().toISOString()
-      })
-    } catch (e) {
-      console.error('Failed to log banned attempt:', e)
-    }
-    
-    return { allowed: false, limitType: 'text', used: 0, max: 0, banned: true }
-  }
-
-  // Check database user bans
-  if (userId) {
-    try {
-      const { data: userBan } = await supabase
-        .from('banned_users')
-        .select('user_id')
-        .eq('user_id', userId)
-        .single()
-      
-      if (userBan) {
-        console.log(`🚫 Banned user attempted access (database) - User: ${userId}, IP: ${clientIP}, Device: ${deviceId}`)
-        
-        await supabase.from('banned_access_attempts').insert({
-          device_id: deviceId,
-          user_id: userId,
-          ip_address: clientIP,
-          ban_type: 'user',
-          attempted_at: new Date().toISOString()
-        })
-        
-        return { allowed: false, limitType: 'text', used: 0, max: 0, banned: true }
-      }
-    } catch (e) {
-      console.error('Error checking user ban:', e)
-    }
-  }
-
-  // Exempt automatic daily refresh tasks and post-session summaries from rate limits
-  const exemptPromptTypes = ['dailyMetrics', 'dailyBoosts', 'summarizeConversation', 'extractActionItems']
-  if (promptType && exemptPromptTypes.includes(promptType)) {
-    return { allowed: true }
-  }
-  
-  try {
-    // Check if user has custom rate limits
-    let customTextLimit: number | null = null
-    let customVoiceLimit: number | null = null
-    if (userId) {
-      const { data: userLimit } = await supabase
-        .from('user_limits')
-        .select('is_flagged, custom_rate_limit, custom_voice_limit')
-        .eq('user_id', userId)
-        .single()
-      
-      if (userLimit) {
-        if (userLimit.custom_rate_limit !== null) {
-          customTextLimit = userLimit.custom_rate_limit
-          console.log(`⚙️ User ${userId} has custom text limit: ${customTextLimit}`)
-        }
-        if (userLimit.custom_voice_limit !== null) {
-          customVoiceLimit = userLimit.custom_voice_limit
-          console.log(`⚙️ User ${userId} has custom voice limit: ${customVoiceLimit}`)
-        }
-      }
-    }
-    
-    // Get or create usage record
-    const { data: usage, error: fetchError } = await supabase
-      .from('usage_limits')
-      .select('*')
-      .eq('device_id', deviceId)
-      .single()
-
-    let currentUsage = usage
-
-    // Create record if doesn't exist
-    if (!currentUsage || fetchError) {
-      const now = new Date()
-      const resetAt = new Date(now)
-      resetAt.setUTCHours(24, 0, 0, 0) // Next midnight UTC
-
-      const { data: newUsage, error: insertError } = await supabase
-        .from('usage_limits')
-        .insert({
-          device_id: deviceId,
-          voice_sessions_count: 0,
-          text_sessions_count: 0,
-          has_elevenlabs_key: false,
-          reset_at: resetAt.toISOString()
-        })
-        .select()
-        .single()
-
-      if (insertError) {
-        console.error('Failed to create usage record:', insertError)
-        return { allowed: true } // Fail open on DB errors
-      }
-      currentUsage = newUsage
-    }
-
-    // Check if we need to reset counts (daily reset at midnight UTC)
-    const now = new Date()
-    const resetAt = currentUsage.reset_at ? new Date(currentUsage.reset_at) : null
-    
-    if (!resetAt || now >= resetAt) {
-      // Reset counts and set next reset time to next midnight UTC
-      const nextReset = new Date(now)
-      nextReset.setUTCDate(nextReset.getUTCDate() + 1)
-      nextReset.setUTCHours(0, 0, 0, 0) // Next midnight UTC
-
-      const { data: resetUsage, error: resetError } = await supabase
-        .from('usage_limits')
-        .update({
-          voice_sessions_count: 0,
-          text_sessions_count: 0,
-          reset_at: nextReset.toISOString()
-        })
-        .eq('device_id', deviceId)
-        .select()
-        .single()
-
-      if (resetError) {
-        console.error('Failed to reset usage counts:', resetError)
-        // Continue with existing counts if reset fails
-      } else {
-        currentUsage = resetUsage
-        console.log(`Reset usage counts for device ${deviceId}, next reset: ${nextReset.toISOString()}`)
-      }
-    }
-
-    // Check voice mode rate limit
-    if (isVoiceMode) {
-      // Check voice limit (use custom limit if set, otherwise default)
-      const effectiveVoiceLimit = customVoiceLimit !== null ? customVoiceLimit : VOICE_LIMIT
-      
-      if (currentUsage.voice_sessions_count >= effectiveVoiceLimit) {
-        console.log(`⚠️ Voice limit reached: ${currentUsage.voice_sessions_count}/${effectiveVoiceLimit}`)
-        return {
-          allowed: false,
-          limitType: 'voice',
-          used: currentUsage.voice_sessions_count,
-          max: effectiveVoiceLimit
-        }
-      }
-
-      // Increment voice count
-      await supabase
-        .from('usage_limits')
-        .update({
-          voice_sessions_count: currentUsage.voice_sessions_count + 1
-        })
-        .eq('device_id', deviceId)
-
-      console.log(`✅ Voice request allowed: ${currentUsage.voice_sessions_count + 1}/${effectiveVoiceLimit}`)
-      return { allowed: true }
-    } else {
-      // Check text mode rate limit (use custom limit if set, otherwise default)
-      const effectiveLimit = customTextLimit !== null ? customTextLimit : TEXT_LIMIT
-      
-      if (currentUsage.text_sessions_count >= effectiveLimit) {
-        return {
-          allowed: false,
-          limitType: 'text',
-          used: currentUsage.text_sessions_count,
-          max: effectiveLimit
-        }
-      }
-
-      // Increment text count
-      await supabase
-        .from('usage_limits')
-        .update({ text_sessions_count: currentUsage.text_sessions_count + 1 })
-        .eq('device_id', deviceId)
-
-      return { allowed: true }
-    }
-  } catch (error) {
-    console.error('Rate limit check error:', error)
-    // Fail closed on errors to prevent abuse
-    return { 
-      allowed: false, 
-      limitType: 'text',
-      used: 0,
-      max: TEXT_LIMIT
-    }
+// Background jobs and server-to-server callers get a single JSON body instead of SSE
+function wantsJSONResponse(req: NextApiRequest): boolean {
+  if (req.body?.stream === false) {
+    return true
   }
+  const accept = req.headers.accept || ''
+  return accept.includes('application/json') && !accept.includes('text/event-stream')
 }
 
 export default async function handler(
@@ -394,9 +99,33 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
+  let sseStream: SSEStream | undefined
+  let activeRequest: ActiveRequest | undefined
+  let idempotency: IdempotentRequest | undefined
+  let route: ModelRoute | undefined
+  let isByok = false
+  let promptTemplate: PromptTemplateRef | undefined
+  let experiment: ExperimentAssignment | null = null
+
   try {
-    // No authentication - privacy-first app with local-only users
-    // Backend is just a secure proxy to hide API keys
+    // No authentication required - privacy-first app with local-only users
+    // Backend is just a secure proxy to hide API keys (signed-in users may send a token, see below)
+
+    // Reconnecting client: replay the missed events instead of calling the model again
+    // (no rate limit or ban check here - the original request already passed them).
+    // The request is sent again as it was, so its context identifies the stream's owner.
+    const lastEventId = req.headers['last-event-id']
+    if (typeof lastEventId === 'string' && lastEventId.length > 0) {
+      const { userId, deviceId } = (req.body as Partial<AIGatewayRequest> | undefined)?.context || {}
+      const replayed = await replaySSEStream(req, res, lastEventId, { userId, deviceId })
+      if (!replayed) {
+        return res.status(410).json({
+          error: 'Stream is no longer available',
+          details: 'Send the request again without Last-Event-ID'
+        })
+      }
+      return
+    }
 
     // Parse request body
     const body: AIGatewayRequest = req.body
@@ -407,6 +136,10 @@ export default async function handler(
       provider = 'openai',
       model,
       tools = [],
+      serverTools = [],
+      responseSchema,
+      promptVariables,
+      speak,
       context = {}
     } = body
 
@@ -415,10 +148,84 @@ export default async function handler(
       return res.status(400).json({ error: 'Message is required' })
     }
 
-    // Check rate limits (skip if user provided their own API key)
-    const userProvidedKey = body.userApiKey && body.userApiKey.trim().length > 0
+    if (!isSupportedProvider(provider)) {
+      return res.status(400).json({ error: `Unsupported provider: ${provider}` })
+    }
+
+    if (promptVariables !== undefined && !isPromptVariables(promptVariables)) {
+      return res.status(400).json({ error: 'promptVariables must be an object of strings, numbers or booleans' })
+    }
+
+    const unknownServerTools = serverTools.filter(name => !isServerTool(name))
+    if (unknownServerTools.length > 0) {
+      return res.status(400).json({ error: `Unknown server tools: ${unknownServerTools.join(', ')}` })
+    }
+
+    // Signing in is optional, but only a user id proven by a Supabase access
+    // token (Authorization: Bearer) is trusted with the user's own data -
+    // context.userId is whatever the client claims
+    const auth = await verifyBearerToken(req)
+    if (auth.status === 'invalid') {
+      return res.status(401).json({ error: 'Invalid authentication token' })
+    }
+    const verifiedUserId = auth.status === 'verified' ? auth.userId : undefined
+    if (serverTools.length > 0 && !verifiedUserId) {
+      return res.status(401).json({
+        error: 'Server tools need a signed-in user',
+        details: 'Send the Supabase access token as Authorization: Bearer'
+      })
+    }
 
-    if (!userProvidedKey) {
+    if (speak && (!speak.voiceId || !isTTSProvider(speak.provider))) {
+      return res.status(400).json({ error: 'speak needs a provider (openai, elevenlabs or hume) and a voiceId' })
+    }
+    if (speak && responseSchema) {
+      return res.status(400).json({ error: 'speak cannot be combined with responseSchema' })
+    }
+
+    // A user's own key replaces our rate limits, but only once the provider has
+    // accepted it - otherwise any made-up key would mean unlimited free requests
+    const userApiKey = body.userApiKey?.trim() || undefined
+    let isKeyValidated = false
+    if (userApiKey) {
+      const keyAccepted = await validateApiKey(provider, userApiKey).catch((validationError: Error) => {
+        // Provider unreachable: run the request, but count it like any other
+        console.warn(`Could not validate ${provider} API key, applying rate limits:`, validationError.message)
+        return undefined
+      })
+      if (keyAccepted === false) {
+        return res.status(401).json({
+          error: 'Invalid API key',
+          errorCode: 'INVALID_API_KEY',
+          details: `${provider} rejected the API key`
+        })
+      }
+      isKeyValidated = keyAccepted === true
+    }
+
+    // Generate request ID
+    const requestId = createRequestId()
+    const streamOwner = { userId: context.userId, deviceId: context.deviceId }
+
+    // A retried request with the same Idempotency-Key replays the original stream
+    // (or its stored JSON body) instead of running and counting against the limit again
+    const isJSONMode = wantsJSONResponse(req)
+    const idempotencyResult = await startIdempotentRequest(req, res, 'ai-gateway', {
+      owner: streamOwner,
+      requestId,
+      ttlMs: REPLAY_TTL_MS,
+      attach: isJSONMode ? undefined : (originalRequestId) => replaySSEStream(req, res, `${originalRequestId}:0`, streamOwner)
+    })
+    if (idempotencyResult === 'handled') {
+      return
+    }
+    idempotency = idempotencyResult
+
+    // Check rate limits (skip for a validated user key, unless we also speak the
+    // answer - TTS always runs on our keys)
+    let countedAs: 'voice' | 'text' | undefined
+
+    if (!isKeyValidated || speak) {
       // Require deviceId for rate limiting - reject if missing
       const deviceId = context.deviceId
       if (!deviceId || deviceId.trim().length === 0) {
@@ -429,7 +236,7 @@ export default async function handler(
       }
 
       // Parse boolean values (iOS sends as strings)
-      const isVoiceMode = context.isVoiceMode === true || context.isVoiceMode === 'true' || context.hasTTS === true || context.hasTTS === 'true'
+      const isVoiceMode = context.isVoiceMode === true || context.isVoiceMode === 'true' || context.hasTTS === true || context.hasTTS === 'true' || !!speak
 
       // Get client IP for IP-based banning
       const clientIP = getClientIP(req)
@@ -480,136 +287,321 @@ export default async function handler(
           max: rateLimitResult.max
         })
       }
+      countedAs = rateLimitResult.countedAs
+    }
+
+    // Check what the user wrote before it reaches a provider. A blocked message
+    // still counts against the rate limit. Repeat offenders without a verified
+    // user are banned by IP, never by the ids they claim.
+    const moderation = await moderateInput({
+      message,
+      previousMessages,
+      requestId,
+      promptType,
+      userId: verifiedUserId,
+      deviceId: context.deviceId,
+      clientIP: getClientIP(req)
+    })
+    if (moderation.action === 'block') {
+      return res.status(400).json({
+        error: 'Message not allowed',
+        errorCode: 'CONTENT_BLOCKED',
+        details: 'This message goes against our content guidelines',
+        categories: moderation.categories
+      })
     }
 
-    // Generate request ID
-    const requestId = `req_${Date.now()}_${Math.random().toString(36).substring(7)}`
     const startTime = Date.now()
 
+    // POST /api/ai-gateway/cancel with this id aborts the upstream call
+    activeRequest = registerActiveRequest(requestId, streamOwner)
+
+    // The user's tier decides which models are allowed; other models are
+    // downgraded rather than rejected. Only a verified user gets their tier -
+    // anyone else is on the default one. A user's own validated key pays for any
+    // model, but stays on the provider it belongs to.
+    const modelRouter = await getModelRouter(promptType, verifiedUserId, { unrestricted: isKeyValidated })
+    route = modelRouter.route(userApiKey ? provider : body.provider, model)
+    const requestedModel = model || route.model
+    if (route.downgradedFrom) {
+      console.log(`⬇️ ${route.downgradedFrom} is not allowed on the ${route.tier} tier, using ${route.model}`)
+    }
+
+    // A key that couldn't be validated gets the tier rules like any other request.
+    // If they move it to another provider it runs on our key instead - it is rate
+    // limited either way, and the user's key only works with their own provider.
+    const apiKey = route.provider === provider ? userApiKey : undefined
+    isByok = !!apiKey
+
+    // A/B experiments may swap the model, temperature or prompt template. BYOK
+    // requests stay out of them - the user picked the model and pays for it.
+    experiment = isByok ? null : await assignExperiment(
+      promptType,
+      { deviceId: context.deviceId, userId: context.userId },
+      modelRouter
+    )
+    if (experiment?.route) {
+      route = experiment.route
+    }
+
+    // A server-side template for this promptType/coach replaces the app's system prompt
+    const templated = await applyPromptTemplate(previousMessages, {
+      promptType,
+      coachId: context.coachId,
+      variables: promptVariables,
+      templateId: experiment?.promptTemplateId
+    })
+    promptTemplate = templated.template
+
     // Log AI request to Supabase (only if userId is provided - foreign key constraint)
     if (context.userId) {
       await trackAIRequest({
         userId: context.userId,
-        provider,
-        model: model || getDefaultModel(provider),
+        provider: route.provider,
+        model: route.model,
         promptType,
         messageLength: message.length,
         requestId,
-        context
+        context,
+        isByok,
+        promptTemplate,
+        experiment: experiment || undefined
       })
     }
 
-    // Set SSE headers
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream; charset=utf-8',
-      'Cache-Control': 'no-cache, no-transform',
-      'Connection': 'keep-alive',
-      'X-Accel-Buffering': 'no' // Disable buffering in nginx
-    })
-
-    // Connection health check - detect client disconnects
-    let isClientConnected = true
-    req.on('close', () => {
-      isClientConnected = false
-      console.log('Client disconnected, stopping stream')
+    // SSE events are buffered so a dropped client can resume with Last-Event-ID
+    if (!isJSONMode) {
+      sseStream = openSSEStream(req, res, requestId, streamOwner)
+    }
+    const stream = sseStream
+    stream?.send({
+      type: 'start',
+      protocolVersion: stream.protocolVersion,
+      requestId,
+      provider: route.provider,
+      model: route.model,
+      downgradedFrom: route.downgradedFrom
     })
+    // Lets the client show progress before the first token (the heartbeat keeps the connection open)
+    stream?.send({ type: 'status', status: 'thinking' })
+    if (moderation.action === 'warn') {
+      stream?.send({ type: 'moderation', action: 'warn', categories: moderation.categories })
+    }
 
     // Stream response with array for better memory efficiency
     const responseChunks: string[] = []
-    let tokensUsed: number | undefined
-    let streamAborted = false
 
-    if (provider === 'openai') {
-      const result = await streamOpenAI(
-        message,
-        previousMessages,
-        model,
-        tools,
-        (chunk) => {
-          if (!isClientConnected) {
-            streamAborted = true
-            return false // Signal to stop streaming
-          }
-          responseChunks.push(chunk)
-          res.write(`data: ${JSON.stringify({ chunk })}\n\n`, 'utf8')
-          return true
-        },
-        (toolInvocation) => {
-          if (isClientConnected) {
-            res.write(`data: ${JSON.stringify({ toolInvocation })}\n\n`, 'utf8')
-          }
-        },
-        body.userApiKey // Use user's key if provided
-      )
-      tokensUsed = result.tokensUsed
-    } else if (provider === 'anthropic') {
-      const result = await streamAnthropic(
-        message,
-        previousMessages,
-        model,
-        tools,
-        (chunk) => {
-          if (!isClientConnected) {
-            streamAborted = true
-            return false // Signal to stop streaming
-          }
-          responseChunks.push(chunk)
-          res.write(`data: ${JSON.stringify({ chunk })}\n\n`, 'utf8')
-          return true
-        },
-        (toolInvocation) => {
-          if (isClientConnected) {
-            res.write(`data: ${JSON.stringify({ toolInvocation })}\n\n`, 'utf8')
+    // Fall back to other providers on retryable errors. A user's own key only
+    // works for the provider they chose, so BYOK requests never fall back.
+    // Fallback models go through the same tier rules as the requested one.
+    const fallbackChain = isByok ? [] : (await getFallbackChain(promptType))
+      .map(target => modelRouter.route(target.provider, target.model))
+
+    const targets = [route, ...fallbackChain].map(target => ({ provider: target.provider, model: target.model }))
+
+    // Compact the oldest turns into a summary when the history outgrows the model's context
+    const { previousMessages: fittedMessages, compaction } = await fitToContextWindow(targets, {
+      message,
+      previousMessages: templated.previousMessages,
+      tools,
+      apiKey,
+      imagesData: body.imagesData,
+      signal: activeRequest.signal
+    }, { coachId: context.coachId })
+    if (compaction) {
+      stream?.send({
+        type: 'compaction',
+        summaryMessage: compaction.summaryMessage,
+        replacedMessageCount: compaction.replacedMessageCount
+      })
+      if (context.userId) {
+        await trackAIResponse({
+          userId: context.userId,
+          provider: compaction.servedBy.provider,
+          model: compaction.servedBy.model,
+          promptType: 'summarizeConversation',
+          responseLength: compaction.summaryMessage.content.length,
+          promptTemplate: compaction.template,
+          tokensUsed: compaction.usage?.totalTokens,
+          usage: compaction.usage,
+          latencyMs: compaction.latencyMs,
+          fromCache: false,
+          requestId,
+          context,
+          isByok
+        })
+      }
+    }
+
+    const streamRequest = {
+      message,
+      previousMessages: fittedMessages,
+      tools,
+      apiKey, // Only ever sent to the chosen provider
+      imagesData: body.imagesData,
+      imageMediaType: body.imageMediaType,
+      temperature: experiment?.temperature,
+      signal: activeRequest.signal
+    }
+    const toolContext = { userId: verifiedUserId, deviceId: context.deviceId }
+    // JSON mode collects events for the response body instead of writing them
+    const toolInvocations: ToolInvocation[] = []
+    const toolResults: ServerToolResult[] = []
+    const audioEvents: AudioEvent[] = []
+    // Audio events are interleaved with the deltas, after the sentence they speak
+    const speech = speak && createSpeechPipeline({ ...speak, signal: activeRequest.signal }, (audio) => {
+      if (isJSONMode) {
+        audioEvents.push(audio)
+      }
+      stream?.send(audio)
+    })
+    let firstTokenAt: number | undefined
+    const markFirstToken = () => {
+      firstTokenAt ??= Date.now()
+    }
+    const callbacks: ToolLoopCallbacks = {
+      // Keep generating after a disconnect so a reconnect can get the full answer
+      onChunk: (chunk) => {
+        markFirstToken()
+        responseChunks.push(chunk)
+        stream?.send({ type: 'delta', text: chunk })
+        speech?.push(chunk)
+        return true
+      },
+      onToolInvocation: (toolInvocation) => {
+        markFirstToken()
+        toolInvocations.push(toolInvocation)
+        stream?.send({ type: 'tool_call', toolCall: toolInvocation })
+      },
+      onToolResult: (toolResult) => {
+        toolResults.push(toolResult)
+        stream?.send({ type: 'tool_result', toolResult })
+      }
+    }
+
+    // Server tool calls are run here and fed back to the model within this stream
+    let result: ToolLoopResult
+    let structuredData: unknown
+    if (responseSchema) {
+      // Structured mode sends one validated result event instead of text chunks
+      const structured = await generateStructured(
+        { ...streamRequest, responseSchema },
+        (attemptRequest, attemptCallbacks) => streamWithServerTools(
+          targets, attemptRequest, serverTools, toolContext, {
+            ...callbacks,
+            onChunk: (chunk) => {
+              markFirstToken()
+              return attemptCallbacks.onChunk?.(chunk)
+            }
           }
-        },
-        body.userApiKey, // Use user's key if provided
-        body.imagesData,
-        body.imageMediaType
+        )
       )
-      tokensUsed = result.tokensUsed
+      result = structured.result
+      structuredData = structured.data
+      if (result.finishReason !== 'cancelled') {
+        responseChunks.push(JSON.stringify(structured.data))
+        stream?.send({ type: 'result', result: structured.data })
+      }
+    } else {
+      result = await streamWithServerTools(targets, streamRequest, serverTools, toolContext, callbacks)
     }
-
-    // Send completion event if client still connected
-    if (isClientConnected && !streamAborted) {
-      res.write(`data: [DONE]\n\n`, 'utf8')
+    const tokensUsed = result.tokensUsed
+    const isCancelled = result.finishReason === 'cancelled'
+    await speech?.finish()
+
+    if (isCancelled) {
+      // Nothing reached the user, so the request doesn't count against their limit
+      const delivered = responseChunks.length > 0 || toolInvocations.length > 0
+      if (!delivered && countedAs && context.deviceId) {
+        await refundRateLimit(context.deviceId, countedAs)
+      }
+      // Final event instead of done so the client knows the answer is partial
+      await stream?.cancel({ type: 'cancelled', requestId, delivered })
+    } else {
+      stream?.send({ type: 'usage', usage: result.usage, tokensUsed })
+      // Send completion event (buffered for replay even if the client left)
+      await stream?.finish({
+        type: 'done',
+        finishReason: result.finishReason,
+        provider: result.servedBy.provider,
+        model: result.servedBy.model
+      })
     }
 
     const latencyMs = Date.now() - startTime
     const fullResponse = responseChunks.join('') // Efficient join at the end
 
+    if (isJSONMode) {
+      const responseBody = {
+        text: structuredData === undefined ? fullResponse : '',
+        result: structuredData,
+        toolInvocations,
+        toolResults,
+        audio: speech ? audioEvents : undefined,
+        usage: result.usage,
+        tokensUsed,
+        finishReason: result.finishReason,
+        moderation: moderation.action === 'warn' ? { action: 'warn', categories: moderation.categories } : undefined,
+        compaction: compaction && {
+          summaryMessage: compaction.summaryMessage,
+          replacedMessageCount: compaction.replacedMessageCount
+        },
+        provider: result.servedBy.provider,
+        model: result.servedBy.model,
+        requestId
+      }
+      await idempotency.complete({ status: 200, body: responseBody })
+      res.status(200).json(responseBody)
+    } else {
+      // Retries replay the buffered stream
+      await idempotency.complete()
+    }
+
     // Log AI response to Supabase (only if userId is provided - foreign key constraint)
     if (context.userId) {
       await trackAIResponse({
         userId: context.userId,
-        provider,
-        model: model || getDefaultModel(provider),
+        provider: result.servedBy.provider,
+        model: result.servedBy.model,
+        requestedProvider: body.provider || route.provider,
+        requestedModel,
+        fallbackAttempts: result.fallbackAttempts,
         promptType,
         responseLength: fullResponse.length,
         tokensUsed,
+        usage: result.usage,
         latencyMs,
+        timeToFirstTokenMs: firstTokenAt && firstTokenAt - startTime,
         fromCache: false,
         requestId,
         context,
-        streamAborted,
-        messageLength: message.length,
-        previousMessagesCount: previousMessages.length
+        streamAborted: result.finishReason === 'aborted',
+        cancelled: isCancelled,
+        isByok,
+        promptTemplate,
+        experiment: experiment || undefined
       })
     }
-
-    res.end()
+    for (const usage of speech?.usage() || []) {
+      await trackTTSUsage({ ...usage, userId: context.userId, requestId, deviceId: context.deviceId })
+    }
 
   } catch (error: any) {
-    console.error('AI Gateway Streaming Error:', error)
+    // Provider errors can echo the user's key, so it is scrubbed before logging
+    const userApiKey: string | undefined = req.body?.userApiKey?.trim() || undefined
+    const errorMessage = redactApiKey(error.message || 'Unknown error occurred', userApiKey)
+    const stackTrace = error.stack && redactApiKey(error.stack, userApiKey)
+    console.error('AI Gateway Streaming Error:', stackTrace || errorMessage)
 
     // Create detailed error response for Swift app
-    const errorResponse = {
-      error: error.message || 'Unknown error occurred',
+    const errorResponse: GatewayErrorDetails = {
+      error: errorMessage,
       errorType: error.name || 'UnknownError',
       errorCode: error.code || 'UNKNOWN',
-      provider: req.body.provider || 'unknown',
-      model: req.body.model || 'unknown',
+      provider: route?.provider || req.body.provider || 'unknown',
+      model: route?.model || req.body.model || 'unknown',
       promptType: req.body.promptType || 'unknown',
-      requestId: `req_${Date.now()}_error`,
+      requestId: sseStream?.requestId || `req_${Date.now()}_error`,
       timestamp: new Date().toISOString(),
       // Additional context for debugging
       context: {
@@ -623,24 +615,33 @@ export default async function handler(
       }
     }
 
-    // Send structured error event to Swift app
-    res.write(`data: ${JSON.stringify(errorResponse)}\n\n`)
-    res.end()
+    // Send structured error event to Swift app (or a JSON error before any SSE output)
+    if (sseStream) {
+      await sseStream.fail({ type: 'error', error: errorResponse })
+    } else if (wantsJSONResponse(req) && !res.headersSent) {
+      res.status(500).json(errorResponse)
+    } else {
+      res.write(`data: ${JSON.stringify(errorResponse)}\n\n`)
+      res.end()
+    }
 
     // Log detailed error to Supabase (only if userId is provided - foreign key constraint)
     if (req.body.context?.userId) {
       try {
         await trackAIError({
           userId: req.body.context.userId,
-          provider: req.body.provider || 'unknown',
-          model: req.body.model || getDefaultModel(req.body.provider || 'openai'),
+          provider: route?.provider || req.body.provider || 'unknown',
+          model: route?.model || req.body.model || 'unknown',
           promptType: req.body.promptType || 'unknown',
-          errorMessage: error.message,
+          errorMessage,
           errorCode: error.code || 'UNKNOWN',
           errorType: error.name || 'UnknownError',
-          stackTrace: error.stack,
+          stackTrace,
           requestId: errorResponse.requestId,
-          context: req.body.context
+          context: req.body.context,
+          isByok,
+          promptTemplate,
+          experiment: experiment || undefined
         })
       } catch (trackError) {
         console.error('Failed to track error to Supabase:', trackError)
@@ -648,409 +649,9 @@ export default async function handler(
     } else {
       console.warn('Skipping error tracking - no userId provided')
     }
-  }
-}
-
-// Helper function to stream from OpenAI
-async function streamOpenAI(
-  message: string,
-  previousMessages: Message[],
-  model?: string,
-  tools?: Tool[],
-  onChunk?: (chunk: string) => boolean | void, // Returns false to abort
-  onToolInvocation?: (invocation: any) => void,
-  userApiKey?: string
-): Promise<{ tokensUsed?: number }> {
-  const apiKey = userApiKey || process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    throw new Error('OpenAI API key not configured')
-  }
-
-  // For regeneration requests (affirmation, focuses, capacity), the message is empty
-  // and the actual prompt is in previousMessages. Don't add empty user message.
-  const messages = message.trim().length > 0
-    ? [
-        ...previousMessages.map(m => ({ role: m.role, content: m.content })),
-        { role: 'user', content: message }
-      ]
-    : previousMessages.map(m => ({ role: m.role, content: m.content }))
-
-  const requestBody: any = {
-    model: model || 'gpt-5.1',
-    messages,
-    stream: true
-  }
-
-  // Add GPT-5 specific parameters (same as old OpenAIService)
-  const modelName = model || 'gpt-5.1'
-  if (modelName.startsWith('gpt-5')) {
-    const maxTokens = modelName.includes('nano') ? 4096 : 8192
-    requestBody.max_completion_tokens = maxTokens
-    requestBody.reasoning_effort = 'low'
-    requestBody.stream_options = { include_usage: true }
-  }
-
-  if (tools && tools.length > 0) {
-    // Tools are already in correct OpenAI format from iOS (with type: "function" wrapper)
-    requestBody.tools = tools
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestBody)
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`)
-  }
-
-  if (!response.body) {
-    throw new Error('No response body from OpenAI')
-  }
-
-  // Parse SSE stream from OpenAI with timeout protection
-  const reader = response.body.getReader()
-  const decoder = new TextDecoder()
-  let buffer = ''
-  let accumulatedToolCall: any = {}
-  let toolCallIndex: number | null = null
-
-  // Streaming timeout: 280 seconds (leave 20s buffer for Vercel's 300s limit)
-  const streamTimeout = 280000
-  const startTime = Date.now()
-
-  while (true) {
-    // Check timeout
-    if (Date.now() - startTime > streamTimeout) {
-      console.error('Stream timeout exceeded, aborting')
-      await reader.cancel()
-      throw new Error('Stream timeout: Response took too long')
-    }
-
-    const { done, value } = await reader.read()
-    if (done) break
-
-    buffer += decoder.decode(value, { stream: true })
-    const lines = buffer.split('\n')
-    buffer = lines.pop() || ''
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.substring(6).trim()
-        if (data === '[DONE]') continue
-
-        try {
-          const parsed = JSON.parse(data)
-          const delta = parsed.choices[0]?.delta
-
-          if (!delta) continue
-
-          // Handle text chunks
-          if (delta.content) {
-            const shouldContinue = onChunk?.(delta.content)
-            if (shouldContinue === false) {
-              // Client disconnected, abort stream
-              await reader.cancel()
-              return { tokensUsed: undefined }
-            }
-          }
-
-          // Handle tool calls
-          if (delta.tool_calls) {
-            for (const toolCall of delta.tool_calls) {
-              const index = toolCall.index
-              if (index !== undefined) {
-                toolCallIndex = index
-                if (toolCall.function?.name) {
-                  accumulatedToolCall.name = toolCall.function.name
-                  accumulatedToolCall.arguments = ''
-                }
-                if (toolCall.function?.arguments) {
-                  accumulatedToolCall.arguments = (accumulatedToolCall.arguments || '') + toolCall.function.arguments
-                }
-              }
-            }
-          }
-
-          // Check if tool call is complete
-          if (parsed.choices[0]?.finish_reason === 'tool_calls' && accumulatedToolCall.name) {
-            try {
-              const args = JSON.parse(accumulatedToolCall.arguments || '{}')
-              const invocation = {
-                id: `tool_${Date.now()}_${Math.random().toString(36).substring(7)}`,
-                toolName: accumulatedToolCall.name,
-                arguments: args,
-                timestamp: new Date().toISOString()
-              }
-              onToolInvocation?.(invocation)
-              accumulatedToolCall = {}
-              toolCallIndex = null
-            } catch (e) {
-              console.error('Failed to parse tool arguments:', e)
-            }
-          }
-        } catch (e) {
-          console.error('Failed to parse SSE line:', e)
-        }
-      }
-    }
-  }
-
-  return { tokensUsed: undefined } // OpenAI doesn't provide token count in streaming
-}
-
-// Helper function to stream from Anthropic
-async function streamAnthropic(
-  message: string,
-  previousMessages: Message[],
-  model?: string,
-  tools?: Tool[],
-  onChunk?: (chunk: string) => boolean | void, // Returns false to abort
-  onToolInvocation?: (invocation: any) => void,
-  userApiKey?: string,
-  imagesData?: string[],
-  imageMediaType?: string
-): Promise<{ tokensUsed?: number }> {
-  const apiKey = userApiKey || process.env.ANTHROPIC_API_KEY
-  if (!apiKey) {
-    throw new Error('Anthropic API key not configured')
-  }
-
-  // Anthropic requires system message separately
-  const systemMessage = previousMessages.find(m => m.role === 'system')
-  const conversationMessages = previousMessages.filter(m => m.role !== 'system')
-
-  // For regeneration requests (affirmation, focuses, capacity), the message is empty
-  // and the actual prompt is in conversationMessages. Don't add empty user message.
-  let messages: any[]
-  const hasImages = imagesData && imagesData.length > 0 && imageMediaType
-  const hasUserContent = message.trim().length > 0 || hasImages
-  if (hasUserContent) {
-    const historyMessages = conversationMessages.map(m => ({ role: m.role, content: m.content }))
-
-    // Build user message content - multimodal if images are attached
-    let userContent: any
-    if (hasImages) {
-      const contentParts: any[] = imagesData.map(imgData => ({
-        type: 'image',
-        source: {
-          type: 'base64',
-          media_type: imageMediaType,
-          data: imgData
-        }
-      }))
-      if (message.trim().length > 0) {
-        contentParts.push({ type: 'text', text: message })
-      }
-      userContent = contentParts
-    } else {
-      userContent = message
-    }
-
-    messages = [...historyMessages, { role: 'user', content: userContent }]
-  } else {
-    messages = conversationMessages.map(m => ({ role: m.role, content: m.content }))
-  }
-
-  const requestBody: any = {
-    model: model || 'claude-sonnet-4-5-20250929',
-    max_tokens: 4096,
-    messages,
-    stream: true
-  }
-
-  if (systemMessage) {
-    requestBody.system = systemMessage.content
-  }
-
-  if (tools && tools.length > 0) {
-    requestBody.tools = tools.map(tool => {
-      // Handle both OpenAI format (nested function) and direct format
-      const toolData = tool.function || tool
-      return {
-        name: toolData.name,
-        description: toolData.description,
-        input_schema: toolData.parameters
-      }
-    })
-  }
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestBody)
-  })
-
-  if (!response.ok) {
-    const error = await response.json()
-    throw new Error(`Anthropic API error: ${error.error?.message || response.statusText}`)
-  }
-
-  if (!response.body) {
-    throw new Error('No response body from Anthropic')
-  }
-
-  // Parse SSE stream from Anthropic with timeout protection
-  const reader = response.body.getReader()
-  const decoder = new TextDecoder()
-  let buffer = ''
-  let accumulatedToolUse: any = {}
-
-  // Streaming timeout: 280 seconds (leave 20s buffer for Vercel's 300s limit)
-  const streamTimeout = 280000
-  const startTime = Date.now()
-
-  while (true) {
-    // Check timeout
-    if (Date.now() - startTime > streamTimeout) {
-      console.error('Stream timeout exceeded, aborting')
-      await reader.cancel()
-      throw new Error('Stream timeout: Response took too long')
-    }
-
-    const { done, value } = await reader.read()
-    if (done) break
-
-    buffer += decoder.decode(value, { stream: true })
-    const lines = buffer.split('\n')
-    buffer = lines.pop() || ''
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.substring(6).trim()
-
-        try {
-          const parsed = JSON.parse(data)
-
-          // Handle text deltas
-          if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
-            const shouldContinue = onChunk?.(parsed.delta.text)
-            if (shouldContinue === false) {
-              // Client disconnected, abort stream
-              await reader.cancel()
-              return { tokensUsed: undefined }
-            }
-          }
-
-          // Handle tool use start
-          if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
-            accumulatedToolUse.name = parsed.content_block.name
-            accumulatedToolUse.id = parsed.content_block.id
-            accumulatedToolUse.input = ''
-          }
-
-          // Handle tool use delta
-          if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'input_json_delta') {
-            accumulatedToolUse.input += parsed.delta.partial_json
-          }
-
-          // Handle tool use complete
-          if (parsed.type === 'content_block_stop' && accumulatedToolUse.name) {
-            try {
-              const args = JSON.parse(accumulatedToolUse.input || '{}')
-              const invocation = {
-                id: accumulatedToolUse.id || `tool_${Date.now()}`,
-                toolName: accumulatedToolUse.name,
-                arguments: args,
-                timestamp: new Date().toISOString()
-              }
-              onToolInvocation?.(invocation)
-              accumulatedToolUse = {}
-            } catch (e) {
-              console.error('Failed to parse tool input:', e)
-            }
-          }
-        } catch (e) {
-          console.error('Failed to parse Anthropic SSE line:', e)
-        }
-      }
-    }
-  }
-
-  return { tokensUsed: undefined }
-}
-
-// Helper function to get default model
-function getDefaultModel(provider: string): string {
-  return provider === 'openai' ? 'gpt-5.1' : 'claude-sonnet-4-5-20250929'
-}
-
-// Tracking functions
-async function trackAIRequest(data: any) {
-  try {
-    await supabase.from('ai_interactions').insert({
-      user_id: data.userId,
-      provider: data.provider,
-      model: data.model,
-      prompt_type: data.promptType,
-      interaction_type: data.promptType || 'conversation',
-      message_length: data.messageLength,
-      request_id: data.requestId,
-      session_id: data.context?.sessionId,
-      coach_id: data.context?.coachId,
-      feature_name: data.context?.featureName,
-      status: 'pending',
-      timestamp: new Date().toISOString()
-    })
-  } catch (error) {
-    console.error('Failed to track AI request:', error)
-  }
-}
-
-async function trackAIResponse(data: any) {
-  try {
-    await supabase.from('ai_interactions').insert({
-      user_id: data.userId,
-      provider: data.provider,
-      model: data.model,
-      prompt_type: data.promptType,
-      interaction_type: data.promptType || 'conversation',
-      response_length: data.responseLength,
-      tokens_used: data.tokensUsed,
-      response_time_ms: data.latencyMs,
-      from_cache: data.fromCache,
-      stream_aborted: data.streamAborted || false,
-      request_id: data.requestId,
-      session_id: data.context?.sessionId,
-      coach_id: data.context?.coachId,
-      feature_name: data.context?.featureName,
-      status: 'success',
-      timestamp: new Date().toISOString()
-    })
-  } catch (error) {
-    console.error('Failed to track AI response:', error)
-  }
-}
-
-async function trackAIError(data: any) {
-  try {
-    await supabase.from('ai_interactions').insert({
-      user_id: data.userId,
-      provider: data.provider,
-      model: data.model,
-      prompt_type: data.promptType,
-      interaction_type: data.promptType || 'conversation',
-      error_message: data.errorMessage,
-      error_code: data.errorCode,
-      error_category: data.errorType,
-      stack_trace: data.stackTrace,
-      request_id: data.requestId,
-      session_id: data.context?.sessionId,
-      coach_id: data.context?.coachId,
-      feature_name: data.context?.featureName,
-      status: 'error',
-      timestamp: new Date().toISOString()
-    })
-  } catch (error) {
-    console.error('Failed to track AI error to Supabase:', error)
+  } finally {
+    activeRequest?.release()
+    // Failed and rejected requests free the key so a retry runs again
+    await idempotency?.release()
   }
 }
@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { cancelRequest } from '../../../lib/ai-cancellation'
+import { verifyBearerToken } from '../../../lib/auth'
+
+// Stop an in-flight gateway request by the requestId from its X-Request-Id header.
+// The stream ends with a { cancelled } event instead of [DONE]. userId and deviceId
+// must be the ones the request was sent with (context.userId/context.deviceId).
+// Requests to the authenticated routes (the streaming gateway, voice turns) need
+// the same user's access token as Authorization: Bearer instead of userId.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { requestId, userId, deviceId } = req.body || {}
+  if (!requestId || typeof requestId !== 'string') {
+    return res.status(400).json({ error: 'requestId is required' })
+  }
+  if ((userId !== undefined && typeof userId !== 'string') || (deviceId !== undefined && typeof deviceId !== 'string')) {
+    return res.status(400).json({ error: 'userId and deviceId must be strings' })
+  }
+
+  const auth = await verifyBearerToken(req)
+  if (auth.status === 'invalid') {
+    return res.status(401).json({ error: 'Invalid authentication token' })
+  }
+  const caller = auth.status === 'verified'
+    ? { userId: auth.userId, deviceId, verified: true }
+    : { userId, deviceId }
+
+  try {
+    const outcome = await cancelRequest(requestId, caller)
+    if (outcome === 'cancelled') {
+      return res.status(200).json({ requestId, status: 'cancelled' })
+    }
+    if (outcome === 'forbidden') {
+      return res.status(403).json({ error: 'Only the client that sent the request can cancel it' })
+    }
+    // Running on another instance (or already finished) - it picks this up within a few seconds
+    return res.status(202).json({ requestId, status: 'cancellation_requested' })
+  } catch (error) {
+    console.error('Failed to cancel request:', error)
+    return res.status(500).json({
+      error: 'Failed to cancel request',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
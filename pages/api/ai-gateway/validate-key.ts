@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { isSupportedProvider, validateApiKey } from '../../../lib/ai-providers'
+import { checkAndIncrementRateLimit, getClientIP } from '../../../lib/rate-limit'
+
+// Check a user's own provider key before the app saves it, so the user learns
+// about a typo right away instead of on their next message. The gateway runs
+// the same check on every BYOK request. The key is never logged or stored.
+// Each check counts as a text message, so the endpoint can't be used to try
+// out keys in bulk.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { provider, apiKey, deviceId } = req.body || {}
+  if (typeof provider !== 'string' || !isSupportedProvider(provider)) {
+    return res.status(400).json({ error: 'provider must be openai, anthropic or gemini' })
+  }
+  if (typeof apiKey !== 'string' || apiKey.trim().length === 0) {
+    return res.status(400).json({ error: 'apiKey is required' })
+  }
+  if (typeof deviceId !== 'string' || deviceId.trim().length === 0) {
+    return res.status(400).json({
+      error: 'Device ID is required for rate limiting',
+      details: 'Please update your app to the latest version'
+    })
+  }
+
+  const rateLimitResult = await checkAndIncrementRateLimit(deviceId, false, undefined, undefined, getClientIP(req))
+  if (!rateLimitResult.allowed) {
+    if (rateLimitResult.banned) {
+      return res.status(403).json({ error: 'Access denied' })
+    }
+    return res.status(429).json({
+      error: 'Text session limit reached',
+      limitType: rateLimitResult.limitType,
+      used: rateLimitResult.used,
+      max: rateLimitResult.max
+    })
+  }
+
+  try {
+    const valid = await validateApiKey(provider, apiKey.trim())
+    return res.status(200).json({ provider, valid })
+  } catch (error) {
+    console.error(`Failed to validate ${provider} API key:`, error instanceof Error ? error.message : error)
+    return res.status(502).json({
+      error: `Could not reach ${provider} to validate the key`,
+      details: 'Try again in a moment'
+    })
+  }
+}
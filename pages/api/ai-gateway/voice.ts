@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import type { Server } from 'http'
+import type { Socket } from 'net'
+import { SSE_PROTOCOL_VERSION } from '../../../lib/sse-protocol'
+import { attachVoiceWebSocketServer, VOICE_WEBSOCKET_PATH } from '../../../lib/voice-websocket'
+
+export const config = {
+  api: {
+    bodyParser: false
+  }
+}
+
+// Voice mode over a WebSocket: text deltas and sentence-by-sentence audio in
+// one connection instead of an SSE stream plus separate TTS calls.
+// GET this route once so the server starts accepting upgrades, then connect to
+// the same path with a WebSocket, sending the user's Supabase access token as
+// Authorization: Bearer (upgrades without a valid one get a 401).
+// Messages are described in lib/voice-session.ts.
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const server = (res.socket as (Socket & { server?: Server }) | null)?.server
+  if (!server) {
+    return res.status(501).json({ error: 'WebSockets are not available on this deployment' })
+  }
+  attachVoiceWebSocketServer(server)
+
+  res.status(200).json({
+    status: 'ready',
+    path: VOICE_WEBSOCKET_PATH,
+    protocolVersion: SSE_PROTOCOL_VERSION
+  })
+}
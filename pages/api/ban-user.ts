@@ -54,6 +54,7 @@ export default async function handler(
 
     const bannedAt = new Date().toISOString();
     const banReason = reason || 'Banned by admin';
+    // Admin bans are permanent, including over an automatic temporary ban
 
     // Ban all IPs associated with this user
     const uniqueIPs = [...new Set(deviceData?.map(d => d.ip_address).filter(Boolean) || [])];
@@ -62,7 +63,9 @@ export default async function handler(
       const ipBans = uniqueIPs.map(ip => ({
         ip_address: ip,
         reason: banReason,
-        banned_at: bannedAt
+        banned_at: bannedAt,
+        expires_at: null,
+        moderation_action_id: null
       }));
 
       const { error: ipBanError } = await supabase
@@ -82,7 +85,9 @@ export default async function handler(
       const deviceBans = uniqueDevices.map(deviceId => ({
         device_id: deviceId,
         reason: banReason,
-        banned_at: bannedAt
+        banned_at: bannedAt,
+        expires_at: null,
+        moderation_action_id: null
       }));
 
       const { error: deviceBanError } = await supabase
@@ -102,7 +107,9 @@ export default async function handler(
       .upsert({
         user_id: userId,
         reason: banReason,
-        banned_at: bannedAt
+        banned_at: bannedAt,
+        expires_at: null,
+        moderation_action_id: null
       }, { onConflict: 'user_id' });
 
     if (userBanError) {
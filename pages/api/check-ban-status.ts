@@ -37,11 +37,15 @@ export default async function handler(
       return res.status(400).json({ error: 'User ID is required' });
     }
 
+    // Expired temporary bans don't count
+    const activeBan = `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`;
+
     // Check if user is banned
     const { data: userBan, error: userBanError } = await supabase
       .from('banned_users')
       .select('*')
       .eq('user_id', userId)
+      .or(activeBan)
       .single();
 
     if (userBanError && userBanError.code !== 'PGRST116') { // PGRST116 = no rows found
@@ -68,7 +72,8 @@ export default async function handler(
       const { data: deviceBans } = await supabase
         .from('banned_devices')
         .select('device_id')
-        .in('device_id', uniqueDevices);
+        .in('device_id', uniqueDevices)
+        .or(activeBan);
       
       bannedDevices = deviceBans?.map(d => d.device_id) || [];
     }
@@ -79,7 +84,8 @@ export default async function handler(
       const { data: ipBans } = await supabase
         .from('banned_ips')
         .select('ip_address')
-        .in('ip_address', uniqueIPs);
+        .in('ip_address', uniqueIPs)
+        .or(activeBan);
       
       bannedIPs = ipBans?.map(d => d.ip_address) || [];
     }
@@ -92,7 +98,8 @@ export default async function handler(
         reason: userBan.reason,
         bannedAt: userBan.banned_at,
         bannedBy: userBan.banned_by,
-        notes: userBan.notes
+        notes: userBan.notes,
+        expiresAt: userBan.expires_at
       } : null,
       bannedDevices,
       bannedIPs,
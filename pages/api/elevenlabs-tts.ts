@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
 import { elevenLabsKeyManager } from '../../lib/elevenlabs-key-manager'
+import { calculateCost } from '../../lib/ai-pricing'
+import { startIdempotentRequest, type IdempotentRequest } from '../../lib/idempotency'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -15,15 +17,24 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
+  let idempotency: IdempotentRequest | undefined
+
   try {
     // No authentication - privacy-first app
 
-    const { voiceId, text, settings, withTimestamps, userApiKey } = req.body
+    const { voiceId, text, settings, withTimestamps, userApiKey, deviceId, userId } = req.body
 
     if (!voiceId || !text) {
       return res.status(400).json({ error: 'voiceId and text are required' })
     }
 
+    // A retry with the same Idempotency-Key gets the original audio instead of a second charge
+    const idempotencyResult = await startIdempotentRequest(req, res, 'elevenlabs-tts', { owner: { userId, deviceId } })
+    if (idempotencyResult === 'handled') {
+      return
+    }
+    idempotency = idempotencyResult
+
     // Use user's API key if provided, otherwise use shared pool
     let apiKey: string
     if (userApiKey && userApiKey.trim().length > 0) {
@@ -84,6 +95,7 @@ export default async function handler(
         status: 'success',
         prompt_type: 'tts',
         message_length: text.length,
+        cost_usd: await calculateCost(modelId, { characters: text.length }),
         event_type: 'tts_request',
         created_at: new Date().toISOString()
       })
@@ -95,16 +107,24 @@ export default async function handler(
     if (withTimestamps) {
       // with-timestamps endpoint returns JSON with audio_base64 and alignment data
       const jsonResponse = await response.json()
+      await idempotency.complete({ status: 200, body: jsonResponse })
       res.setHeader('Content-Type', 'application/json')
       res.json(jsonResponse)
     } else {
       // Regular endpoint returns audio/mpeg directly
       const audioBuffer = await response.arrayBuffer()
+      await idempotency.complete({
+        status: 200,
+        body: Buffer.from(audioBuffer).toString('base64'),
+        contentType: 'audio/mpeg'
+      })
       res.setHeader('Content-Type', 'audio/mpeg')
       res.send(Buffer.from(audioBuffer))
     }
   } catch (error: any) {
     console.error('Error generating TTS:', error)
     res.status(500).json({ error: error.message })
+  } finally {
+    await idempotency?.release()
   }
 }
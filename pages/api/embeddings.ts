@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
+import { calculateCost } from '../../lib/ai-pricing';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -218,6 +219,7 @@ export default async function handler(
         cache_hits: cacheHits.length,
         prompt_tokens: promptTokens,
         total_tokens: totalTokens,
+        cost_usd: await calculateCost(model, { usage: { inputTokens: promptTokens } }),
         created_at: new Date().toISOString(),
       });
     }
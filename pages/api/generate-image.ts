@@ -1,12 +1,14 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
+import { calculateCost } from '../../lib/ai-pricing'
+import { startIdempotentRequest, type IdempotentRequest } from '../../lib/idempotency'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 )
 
-// Banned users/devices/IPs - keep in sync with ai-gateway.ts
+// Banned users/devices/IPs - keep in sync with lib/rate-limit.ts
 const BANNED_DEVICES: string[] = [
   'D0758F58-C953-40F7-9533-9DBBC4FB5FCB',
   '2B0779F3-5542-41C7-9663-7ABA3609BF61',
@@ -38,6 +40,8 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
+  let idempotency: IdempotentRequest | undefined
+
   try {
     const { prompt, size = '1024x1024', quality = 'standard', style = 'natural', deviceId, userId } = req.body
 
@@ -92,6 +96,13 @@ export default async function handler(
       }
     }
 
+    // A retry with the same Idempotency-Key gets the original image instead of a second DALL-E charge
+    const idempotencyResult = await startIdempotentRequest(req, res, 'generate-image', { owner: { userId, deviceId } })
+    if (idempotencyResult === 'handled') {
+      return
+    }
+    idempotency = idempotencyResult
+
     // Check rate limit for image generation
     const { data: usage } = await supabase
       .from('usage_limits')
@@ -176,7 +187,9 @@ export default async function handler(
       prompt_type: 'image_generation',
       interaction_type: 'image_generation',
       message_length: prompt.length,
+      cost_usd: 0, // Billed on the success row
       request_id: requestId,
+      device_id: deviceId,
       status: 'pending',
       timestamp: new Date().toISOString()
     })
@@ -214,16 +227,20 @@ export default async function handler(
       prompt_type: 'image_generation',
       interaction_type: 'image_generation',
       response_time_ms: latencyMs,
+      cost_usd: await calculateCost('dall-e-3', { images: 1 }),
       request_id: requestId,
+      device_id: deviceId,
       status: 'success',
       timestamp: new Date().toISOString()
     })
 
-    res.status(200).json({
+    const responseBody = {
       imageUrl: data.data[0].url,
       revisedPrompt: data.data[0].revised_prompt,
       requestId
-    })
+    }
+    await idempotency.complete({ status: 200, body: responseBody })
+    res.status(200).json(responseBody)
   } catch (error: any) {
     console.error('Error generating image:', error)
 
@@ -237,6 +254,7 @@ export default async function handler(
         interaction_type: 'image_generation',
         error_category: error.name || 'unknown_error',
         error_message: error.message || 'Unknown error occurred',
+        cost_usd: 0,
         event_type: 'error',
         created_at: new Date().toISOString()
       })
@@ -245,5 +263,7 @@ export default async function handler(
     }
 
     res.status(500).json({ error: error.message })
+  } finally {
+    await idempotency?.release()
   }
 }
@@ -1,5 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
+import { calculateCost } from '../../lib/ai-pricing'
+import { startIdempotentRequest, type IdempotentRequest } from '../../lib/idempotency'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -14,13 +16,21 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
+  let idempotency: IdempotentRequest | undefined
+
   try {
-    const { prompt, aspectRatio = '9:16' } = req.body
+    const { prompt, aspectRatio = '9:16', deviceId, userId } = req.body
 
     if (!prompt) {
       return res.status(400).json({ error: 'prompt is required' })
     }
 
+    const idempotencyResult = await startIdempotentRequest(req, res, 'generate-vision-board-image', { owner: { userId, deviceId } })
+    if (idempotencyResult === 'handled') {
+      return
+    }
+    idempotency = idempotencyResult
+
     const apiKey = process.env.GEMINI_API_KEY
     if (!apiKey) {
       throw new Error('Gemini API key not configured')
@@ -37,6 +47,7 @@ export default async function handler(
       prompt_type: 'vision_board_generation',
       interaction_type: 'vision_board_generation',
       message_length: prompt.length,
+      cost_usd: 0, // Billed on the success row
       request_id: requestId,
       status: 'pending',
       timestamp: new Date().toISOString()
@@ -95,6 +106,7 @@ export default async function handler(
       prompt_type: 'vision_board_generation',
       interaction_type: 'vision_board_generation',
       response_time_ms: latencyMs,
+      cost_usd: await calculateCost('imagen-4.0-fast-generate-001', { images: 1 }),
       request_id: requestId,
       status: 'success',
       timestamp: new Date().toISOString()
@@ -108,10 +120,12 @@ export default async function handler(
       throw new Error('No image generated')
     }
 
-    res.status(200).json({
+    const responseBody = {
       imageBase64: `data:image/png;base64,${imageBase64}`,
       requestId
-    })
+    }
+    await idempotency.complete({ status: 200, body: responseBody })
+    res.status(200).json(responseBody)
   } catch (error: any) {
     console.error('Error generating vision board image:', error)
 
@@ -125,6 +139,7 @@ export default async function handler(
         status: 'error',
         error_type: error.name || 'unknown_error',
         error_message: error.message || 'Unknown error occurred',
+        cost_usd: 0,
         event_type: 'error',
         created_at: new Date().toISOString()
       })
@@ -133,5 +148,7 @@ export default async function handler(
     }
 
     res.status(500).json({ error: error.message })
+  } finally {
+    await idempotency?.release()
   }
 }
@@ -1,5 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
+import { calculateCost } from '../../lib/ai-pricing'
+import { startIdempotentRequest, type IdempotentRequest } from '../../lib/idempotency'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -140,6 +142,8 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
+  let idempotency: IdempotentRequest | undefined
+
   try {
     const { voiceId, text, deviceId, userId } = req.body
 
@@ -157,6 +161,13 @@ export default async function handler(
       return res.status(400).json({ error: 'voiceId and text are required' })
     }
 
+    // A retry with the same Idempotency-Key gets the original audio without counting again
+    const idempotencyResult = await startIdempotentRequest(req, res, 'hume-tts', { owner: { userId, deviceId } })
+    if (idempotencyResult === 'handled') {
+      return
+    }
+    idempotency = idempotencyResult
+
     // Rate limiting: apply to all users if deviceId is provided
     if (deviceId) {
       console.log('🔒 [Hume TTS] Checking rate limit for device:', deviceId.substring(0, 8) + '...')
@@ -261,6 +272,8 @@ export default async function handler(
         status: 'success',
         prompt_type: 'tts',
         message_length: text.length,
+        cost_usd: await calculateCost('hume-tts', { characters: text.length }),
+        device_id: deviceId,
         event_type: 'tts_request',
         created_at: new Date().toISOString()
       })
@@ -269,6 +282,7 @@ export default async function handler(
     }
 
     console.log('✅ [Hume TTS] Request completed successfully')
+    await idempotency.complete({ status: 200, body: { audio_base64, timestamps } })
     res.setHeader('Content-Type', 'application/json')
     res.json({ audio_base64, timestamps })
   } catch (error: any) {
@@ -277,5 +291,7 @@ export default async function handler(
       stack: error.stack?.split('\n').slice(0, 3).join('\n')
     })
     res.status(500).json({ error: error.message })
+  } finally {
+    await idempotency?.release()
   }
 }
@@ -0,0 +1,101 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Review and reverse the bans issued automatically by moderation escalation
+// (lib/moderation-escalation.ts)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // Admin authentication
+  const adminSecret = req.headers['x-admin-secret'];
+  if (!adminSecret || adminSecret !== process.env.ADMIN_SECRET_KEY) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  if (req.method === 'GET') {
+    return handleGet(req, res);
+  } else if (req.method === 'POST') {
+    return handlePost(req, res);
+  } else {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+}
+
+async function handleGet(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { status, userId, deviceId } = req.query;
+
+    let query = supabase
+      .from('moderation_actions_review')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (status && status !== 'all') {
+      query = query.eq('status', status);
+    }
+    if (typeof userId === 'string') {
+      query = query.eq('user_id', userId);
+    }
+    if (typeof deviceId === 'string') {
+      query = query.eq('device_id', deviceId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching moderation actions:', error);
+      return res.status(500).json({ error: 'Failed to fetch moderation actions' });
+    }
+
+    return res.status(200).json(data || []);
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// Reverse an action: lifts the bans it created and marks it reversed
+async function handlePost(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { actionId, reason, reversedBy } = req.body;
+
+    if (!actionId) {
+      return res.status(400).json({ error: 'actionId is required' });
+    }
+
+    const { data: action, error: fetchError } = await supabase
+      .from('moderation_actions')
+      .select('status')
+      .eq('id', actionId)
+      .single();
+
+    if (fetchError || !action) {
+      return res.status(404).json({ error: 'Moderation action not found' });
+    }
+
+    if (action.status === 'reversed') {
+      return res.status(400).json({ error: 'Moderation action has already been reversed' });
+    }
+
+    const { data, error } = await supabase.rpc('reverse_moderation_action', {
+      p_action_id: actionId,
+      p_reversed_by: reversedBy || 'admin',
+      p_reason: reason || null
+    });
+
+    if (error) {
+      console.error('Error reversing moderation action:', error);
+      return res.status(500).json({ error: 'Failed to reverse moderation action', details: error.message });
+    }
+
+    console.log(`↩️ Moderation action ${actionId} reversed by ${reversedBy || 'admin'}`);
+    return res.status(200).json({ success: true, action: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
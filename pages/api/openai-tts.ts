@@ -5,6 +5,8 @@ import { randomUUID } from 'crypto'
 import path from 'path'
 import { createReadStream } from 'fs'
 import { createClient } from '@supabase/supabase-js'
+import { calculateCost } from '../../lib/ai-pricing'
+import { startIdempotentRequest, type IdempotentRequest } from '../../lib/idempotency'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -145,6 +147,8 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
+  let idempotency: IdempotentRequest | undefined
+
   try {
     const { voiceId, text, withTimestamps, settings, deviceId, userId } = req.body
 
@@ -164,6 +168,13 @@ export default async function handler(
       return res.status(400).json({ error: 'voiceId and text are required' })
     }
 
+    // A retry with the same Idempotency-Key gets the original audio without counting again
+    const idempotencyResult = await startIdempotentRequest(req, res, 'openai-tts', { owner: { userId, deviceId } })
+    if (idempotencyResult === 'handled') {
+      return
+    }
+    idempotency = idempotencyResult
+
     // Rate limiting: apply to all users if deviceId is provided
     if (deviceId) {
       console.log('🔒 [OpenAI TTS] Checking rate limit for device:', deviceId.substring(0, 8) + '...')
@@ -249,6 +260,8 @@ export default async function handler(
         status: 'success',
         prompt_type: 'tts',
         message_length: text.length,
+        cost_usd: await calculateCost('gpt-4o-mini-tts', { characters: text.length }),
+        device_id: deviceId,
         event_type: 'tts_request',
         created_at: new Date().toISOString()
       })
@@ -257,16 +270,20 @@ export default async function handler(
     }
 
     console.log('✅ [OpenAI TTS] Request completed successfully')
-    res.setHeader('Content-Type', 'application/json')
-    res.json({
+    const responseBody = {
       audio_base64,
       alignment
-    })
+    }
+    await idempotency.complete({ status: 200, body: responseBody })
+    res.setHeader('Content-Type', 'application/json')
+    res.json(responseBody)
   } catch (error: any) {
     console.error('❌ [OpenAI TTS] Error:', {
       message: error.message,
       stack: error.stack?.split('\n').slice(0, 3).join('\n')
     })
     res.status(500).json({ error: error.message })
+  } finally {
+    await idempotency?.release()
   }
 }
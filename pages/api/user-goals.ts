@@ -0,0 +1,95 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { verifyBearerToken } from '../../lib/auth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Sync the signed-in user's goals, which the get_user_goals server tool reads.
+// PUT sends the app's full list: goals are matched by their app id, and goals
+// missing from the list are removed.
+//   PUT { goals: [{ id, title, description?, status?, targetDate? }] }
+
+const MAX_GOALS = 100
+const GOAL_STATUSES = ['active', 'completed', 'archived']
+const APP_GOAL_ID_PATTERN = /^[\w-]{1,100}$/
+
+interface GoalInput {
+  id: string
+  title: string
+  description?: string
+  status?: string
+  targetDate?: string // YYYY-MM-DD
+}
+
+function isGoalInput(value: unknown): value is GoalInput {
+  const goal = value as GoalInput
+  return typeof goal === 'object' && goal !== null &&
+    typeof goal.id === 'string' && APP_GOAL_ID_PATTERN.test(goal.id) &&
+    typeof goal.title === 'string' && goal.title.trim().length > 0 &&
+    (goal.description === undefined || typeof goal.description === 'string') &&
+    (goal.status === undefined || GOAL_STATUSES.includes(goal.status)) &&
+    (goal.targetDate === undefined || /^\d{4}-\d{2}-\d{2}$/.test(goal.targetDate))
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const auth = await verifyBearerToken(req)
+  if (auth.status !== 'verified') {
+    return res.status(401).json({ error: 'Missing or invalid authentication token' })
+  }
+
+  const { goals } = req.body || {}
+  if (!Array.isArray(goals) || goals.length > MAX_GOALS || !goals.every(isGoalInput)) {
+    return res.status(400).json({
+      error: `goals must be a list of up to ${MAX_GOALS} goals with an id, a title and optionally a description, ` +
+        `status (${GOAL_STATUSES.join(', ')}) and targetDate (YYYY-MM-DD)`
+    })
+  }
+
+  try {
+    const now = new Date().toISOString()
+    if (goals.length > 0) {
+      const { error } = await supabase
+        .from('user_goals')
+        .upsert(goals.map(goal => ({
+          user_id: auth.userId,
+          app_goal_id: goal.id,
+          title: goal.title.trim(),
+          description: goal.description || null,
+          status: goal.status || 'active',
+          target_date: goal.targetDate || null,
+          updated_at: now
+        })), { onConflict: 'user_id,app_goal_id' })
+      if (error) {
+        throw new Error(error.message)
+      }
+    }
+
+    // Ids are checked against APP_GOAL_ID_PATTERN, so they can go in the filter as they are
+    let removal = supabase.from('user_goals').delete().eq('user_id', auth.userId)
+    if (goals.length > 0) {
+      removal = removal.not('app_goal_id', 'in', `(${goals.map(goal => goal.id).join(',')})`)
+    }
+    const { error: removeError } = await removal
+    if (removeError) {
+      throw new Error(removeError.message)
+    }
+
+    return res.status(200).json({ synced: goals.length })
+  } catch (error) {
+    console.error('Failed to sync user goals:', error)
+    return res.status(500).json({
+      error: 'Failed to sync goals',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,91 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { verifyBearerToken } from '../../lib/auth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Save and forget things the signed-in user shared, which the
+// search_user_memory server tool searches.
+//   POST { memories: [{ content, category? }] } -> { ids }
+//   DELETE { ids }
+
+const MAX_MEMORIES_PER_REQUEST = 50
+const MAX_MEMORY_CHARS = 2000
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface MemoryInput {
+  content: string
+  category?: string
+}
+
+function isMemoryInput(value: unknown): value is MemoryInput {
+  const memory = value as MemoryInput
+  return typeof memory === 'object' && memory !== null &&
+    typeof memory.content === 'string' &&
+    memory.content.trim().length > 0 && memory.content.length <= MAX_MEMORY_CHARS &&
+    (memory.category === undefined || typeof memory.category === 'string')
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const auth = await verifyBearerToken(req)
+  if (auth.status !== 'verified') {
+    return res.status(401).json({ error: 'Missing or invalid authentication token' })
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const { memories } = req.body || {}
+      if (!Array.isArray(memories) || memories.length === 0 || memories.length > MAX_MEMORIES_PER_REQUEST ||
+        !memories.every(isMemoryInput)) {
+        return res.status(400).json({
+          error: `memories must be a list of 1 to ${MAX_MEMORIES_PER_REQUEST} memories, ` +
+            `each with content (up to ${MAX_MEMORY_CHARS} characters) and optionally a category`
+        })
+      }
+
+      const { data, error } = await supabase
+        .from('user_memories')
+        .insert(memories.map(memory => ({
+          user_id: auth.userId,
+          content: memory.content.trim(),
+          category: memory.category || null
+        })))
+        .select('id')
+      if (error) {
+        throw new Error(error.message)
+      }
+      return res.status(201).json({ ids: (data || []).map(row => row.id) })
+    }
+
+    const { ids } = req.body || {}
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string' && UUID_PATTERN.test(id))) {
+      return res.status(400).json({ error: 'ids must be a non-empty list of memory ids' })
+    }
+    // Scoped to the user, so ids of someone else's memories do nothing
+    const { error } = await supabase
+      .from('user_memories')
+      .delete()
+      .eq('user_id', auth.userId)
+      .in('id', ids)
+    if (error) {
+      throw new Error(error.message)
+    }
+    return res.status(200).json({ deleted: ids.length })
+  } catch (error) {
+    console.error('Failed to update user memories:', error)
+    return res.status(500).json({
+      error: 'Failed to update memories',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict'
+import type { ModerationInput } from '../lib/moderation'
+import { startFakeSupabase, type FakeRequest } from './fake-supabase'
+import { runChecks, type Check } from './run-checks'
+
+// Drives moderateInput against a fake Supabase that keeps moderation_events in
+// memory: how flagged messages are logged, how they are judged when the client
+// sends them back in previousMessages, and who automatic bans hit. No OpenAI key
+// is set, so the local patterns classify the input.
+//
+//   npm run check:moderation
+
+const THREAT = "I'm going to kill you"
+const SELF_HARM = 'Some days I want to die'
+// Enough distinct blocked messages for the default repeated-blocked-messages rule
+const THREATS = [THREAT, 'I will stab him', 'I am gonna shoot them']
+
+interface LoggedEvent {
+  user_id: string | null
+  ip_address: string | null
+  content_hash: string
+  action: string
+  is_history: boolean
+}
+
+let loggedEvents: LoggedEvent[] = []
+
+// Filters the fake table the way the query's eq./in. parameters ask
+function matchesQuery(event: LoggedEvent, query: URLSearchParams): boolean {
+  return [...query.entries()].every(([column, filter]) => {
+    const value = String(event[column as keyof LoggedEvent])
+    if (filter.startsWith('eq.')) return value === filter.slice(3)
+    if (filter.startsWith('in.(')) return filter.slice(4, -1).split(',').includes(value)
+    return true
+  })
+}
+
+function respond(request: FakeRequest) {
+  if (request.table === 'moderation_actions' && request.method === 'POST') {
+    return { status: 201, rows: [{ id: 'moderation-check-action' }] }
+  }
+  if (request.table !== 'moderation_events') return undefined
+  if (request.method === 'POST') {
+    loggedEvents.push(...(request.body as LoggedEvent[]))
+    return { status: 201 }
+  }
+  return { rows: loggedEvents.filter(event => matchesQuery(event, request.query)) }
+}
+
+function input(message: string, history: string[] = []): ModerationInput {
+  return {
+    message,
+    previousMessages: history.map(content => ({ role: 'user', content })),
+    requestId: 'moderation-check',
+    promptType: 'chat',
+    userId: 'moderation-check-user',
+    deviceId: 'moderation-check-device',
+    clientIP: '203.0.113.7'
+  }
+}
+
+async function main() {
+  const supabase = await startFakeSupabase(respond)
+  process.env.NEXT_PUBLIC_SUPABASE_URL = supabase.url
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'offline'
+  delete process.env.OPENAI_API_KEY
+  // Imported after the environment is set, since the modules create their clients on load
+  const { moderateInput } = await import('../lib/moderation')
+
+  // The result along with the Supabase requests made for it
+  const moderate = async (moderationInput: ModerationInput) => {
+    const first = supabase.requests.length
+    const result = await moderateInput(moderationInput)
+    return { result, requests: supabase.requests.slice(first) }
+  }
+  const inserts = (requests: FakeRequest[]) =>
+    requests.filter(request => request.table === 'moderation_events' && request.method === 'POST')
+  const bannedTables = (requests: FakeRequest[]) =>
+    requests.filter(request => request.table.startsWith('banned_') && request.method === 'POST').map(request => request.table)
+
+  const checks: Check[] = [
+    ['blocks a threatening message and logs it', async () => {
+      loggedEvents = []
+      const result = await moderateInput(input(THREAT))
+      assert.equal(result.action, 'block')
+      assert.deepEqual(loggedEvents.map(event => [event.action, event.is_history]), [['block', false]])
+    }],
+    ['keeps blocking a blocked message resent as history, without logging or escalating again', async () => {
+      loggedEvents = []
+      await moderateInput(input(THREAT))
+      const { result, requests } = await moderate(input('Hello again', [THREAT]))
+      assert.equal(result.action, 'block')
+      assert.deepEqual(inserts(requests), [])
+      assert.equal(requests.some(request => request.table === 'moderation_actions'), false)
+    }],
+    ['lets a message that was only warned about through in the history', async () => {
+      loggedEvents = []
+      assert.equal((await moderateInput(input(SELF_HARM))).action, 'warn')
+      const { result, requests } = await moderate(input('Thanks for listening', [SELF_HARM]))
+      assert.equal(result.action, 'allow')
+      assert.deepEqual(inserts(requests), [])
+    }],
+    ['judges and logs flagged history it has not seen before', async () => {
+      loggedEvents = []
+      const result = await moderateInput(input('Hello', [SELF_HARM]))
+      assert.equal(result.action, 'warn')
+      assert.deepEqual(loggedEvents.map(event => [event.action, event.is_history]), [['warn', true]])
+    }],
+    ['bans only the IP of an anonymous repeat offender, whatever ids it claims', async () => {
+      loggedEvents = []
+      const requests: FakeRequest[] = []
+      for (const threat of THREATS) {
+        requests.push(...(await moderate({ ...input(threat), userId: undefined })).requests)
+      }
+      assert.deepEqual(bannedTables(requests), ['banned_ips'])
+    }],
+    ['bans the device of a verified repeat offender', async () => {
+      loggedEvents = []
+      const requests: FakeRequest[] = []
+      for (const threat of THREATS) {
+        requests.push(...(await moderate(input(threat))).requests)
+      }
+      assert.deepEqual(bannedTables(requests), ['banned_devices'])
+    }]
+  ]
+
+  await runChecks('moderation', checks)
+}
+
+void main()
@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict'
+import type { VoiceServerEvent, VoiceSession } from '../lib/voice-session'
+import { startFakeSupabase } from './fake-supabase'
+import { runChecks, type Check } from './run-checks'
+
+// Drives createVoiceSession through a fake VoiceTransport: message validation,
+// session.start, and how turns, cancels and close interrupt each other.
+// Runs offline - a fake Supabase answers every query with 503 and no provider
+// keys are set, so every turn ends in a provider error instead of reaching a model.
+//
+//   npm run check:voice
+
+for (const key of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'GEMINI_API_KEY', 'HUME_API_KEY']) {
+  delete process.env[key]
+}
+
+const START = {
+  type: 'session.start',
+  provider: 'openai',
+  voice: { provider: 'openai', voiceId: 'alloy' },
+  context: { deviceId: 'voice-check-device', userId: 'someone-else' }
+}
+
+interface FakeConnection {
+  session: VoiceSession
+  events: VoiceServerEvent[]
+  closed: boolean
+}
+
+async function connect(): Promise<FakeConnection> {
+  // Imported after the environment is set, since the modules create their clients on load
+  const { createVoiceSession } = await import('../lib/voice-session')
+  const connection = { events: [] as VoiceServerEvent[], closed: false } as FakeConnection
+  connection.session = createVoiceSession({
+    send: (event) => connection.events.push(event),
+    close: () => {
+      connection.closed = true
+    }
+  }, '127.0.0.1', 'voice-check-user')
+  return connection
+}
+
+function errorCodes(events: VoiceServerEvent[]): string[] {
+  return events.flatMap(event => event.type === 'error' ? [event.error.errorCode] : [])
+}
+
+// Request ids of the turns that got as far as the model
+function startedTurns(events: VoiceServerEvent[]): string[] {
+  return events.flatMap(event => event.type === 'start' ? [event.requestId] : [])
+}
+
+// Lets the session get on with what it was sent
+const settle = () => new Promise(resolve => setTimeout(resolve, 10))
+
+const checks: Check[] = [
+  ['rejects messages that are not JSON', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage('not json')
+    assert.deepEqual(errorCodes(events), ['INVALID_MESSAGE'])
+  }],
+  ['rejects a turn before session.start', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage(JSON.stringify({ type: 'turn', message: 'Hello' }))
+    assert.deepEqual(errorCodes(events), ['SESSION_NOT_STARTED'])
+  }],
+  ['validates session.start', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage(JSON.stringify({ ...START, context: {} }))
+    await session.handleMessage(JSON.stringify({ ...START, provider: 'nope' }))
+    await session.handleMessage(JSON.stringify({ ...START, voice: { provider: 'nope', voiceId: 'x' } }))
+    assert.deepEqual(errorCodes(events), ['DEVICE_ID_REQUIRED', 'UNSUPPORTED_PROVIDER', 'INVALID_VOICE'])
+  }],
+  ['answers session.start with ready', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage(JSON.stringify(START))
+    assert.equal(events.length, 1)
+    assert.equal(events[0].type, 'ready')
+  }],
+  ['rejects unknown message types', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage(JSON.stringify({ type: 'nope' }))
+    assert.deepEqual(errorCodes(events), ['INVALID_MESSAGE'])
+  }],
+  ['runs a turn', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage(JSON.stringify(START))
+    await session.handleMessage(JSON.stringify({ type: 'turn', message: 'Hello' }))
+    assert.equal(startedTurns(events).length, 1)
+    assert.equal(events[events.length - 1].type, 'error') // No provider key
+  }],
+  ['only runs the latest of turns sent in a row', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage(JSON.stringify(START))
+    await Promise.all([
+      session.handleMessage(JSON.stringify({ type: 'turn', message: 'First' })),
+      session.handleMessage(JSON.stringify({ type: 'turn', message: 'Second' }))
+    ])
+    assert.equal(startedTurns(events).length, 1)
+  }],
+  ['drops a turn cancelled before it started', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage(JSON.stringify(START))
+    await Promise.all([
+      session.handleMessage(JSON.stringify({ type: 'turn', message: 'Hello' })),
+      session.handleMessage(JSON.stringify({ type: 'cancel' }))
+    ])
+    assert.deepEqual(startedTurns(events), [])
+  }],
+  ['cancels a running turn without the database', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage(JSON.stringify(START))
+    const turn = session.handleMessage(JSON.stringify({ type: 'turn', message: 'Hello' }))
+    await settle()
+    // Recording a cancellation fails here, so this only resolves if the turn is stopped directly
+    await session.handleMessage(JSON.stringify({ type: 'cancel' }))
+    await turn
+    assert.deepEqual(events.filter(event => event.type === 'cancelled').length, 1)
+    assert.deepEqual(startedTurns(events), [])
+  }],
+  ['sends nothing after close', async () => {
+    const { session, events } = await connect()
+    await session.handleMessage(JSON.stringify(START))
+    const turn = session.handleMessage(JSON.stringify({ type: 'turn', message: 'Hello' }))
+    session.close()
+    await turn
+    assert.deepEqual(events.map(event => event.type), ['ready'])
+  }]
+]
+
+async function main() {
+  const supabase = await startFakeSupabase(() => ({ status: 503 }))
+  process.env.NEXT_PUBLIC_SUPABASE_URL = supabase.url
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'offline'
+  await runChecks('voice session', checks)
+}
+
+void main()
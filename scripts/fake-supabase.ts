@@ -0,0 +1,74 @@
+import { createServer, type IncomingMessage } from 'http'
+import type { AddressInfo } from 'net'
+
+// A stand-in for the Supabase REST API (PostgREST) for the offline checks.
+// Every request is recorded; respond() decides what a table query returns, and
+// anything it leaves alone gets an empty result. Start it before importing lib
+// modules, since they create their Supabase clients on load.
+
+export interface FakeRequest {
+  method: string
+  table: string
+  query: URLSearchParams
+  body: unknown
+}
+
+export interface FakeResponse {
+  status?: number // An error status sends a PostgREST-style error body
+  rows?: unknown[]
+}
+
+export interface FakeSupabase {
+  url: string
+  requests: FakeRequest[]
+  close(): Promise<void>
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  const text = Buffer.concat(chunks).toString()
+  return text ? JSON.parse(text) : undefined
+}
+
+export async function startFakeSupabase(
+  respond: (request: FakeRequest) => FakeResponse | undefined = () => undefined
+): Promise<FakeSupabase> {
+  const requests: FakeRequest[] = []
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const request: FakeRequest = {
+      method: req.method || 'GET',
+      table: url.pathname.replace(/^\/rest\/v1\//, ''),
+      query: url.searchParams,
+      body: await readBody(req)
+    }
+    requests.push(request)
+
+    const { status = 200, rows = [] } = respond(request) || {}
+    res.setHeader('Content-Type', 'application/json')
+    if (status >= 400) {
+      res.writeHead(status).end(JSON.stringify({ code: `HTTP_${status}`, message: 'Fake Supabase error' }))
+      return
+    }
+    // .single() asks for one object and gets an error when there is none
+    if (req.headers.accept?.includes('vnd.pgrst.object')) {
+      if (rows.length !== 1) {
+        res.writeHead(406).end(JSON.stringify({ code: 'PGRST116', message: `${rows.length} rows returned` }))
+        return
+      }
+      res.writeHead(status).end(JSON.stringify(rows[0]))
+      return
+    }
+    res.writeHead(status).end(JSON.stringify(rows))
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  }
+}
@@ -0,0 +1,25 @@
+// Runs the offline checks in order and exits non-zero if any failed. What the
+// code under test logs is only printed for checks that fail.
+
+export type Check = [name: string, run: () => Promise<void>]
+
+export async function runChecks(title: string, checks: Check[]) {
+  const { log, warn, error: logError } = console
+  let failed = 0
+  for (const [name, check] of checks) {
+    const logs: unknown[][] = []
+    console.log = console.warn = console.error = (...args: unknown[]) => logs.push(args)
+    try {
+      await check()
+      log(`✅ ${name}`)
+    } catch (error) {
+      failed++
+      logError(`❌ ${name}:`, error)
+      logs.forEach(args => warn(...args))
+    } finally {
+      Object.assign(console, { log, warn, error: logError })
+    }
+  }
+  log(`\n${checks.length - failed}/${checks.length} ${title} checks passed`)
+  process.exit(failed > 0 ? 1 : 0)
+}
@@ -0,0 +1,53 @@
+-- Provider Failover Migration
+-- Records which provider actually served a request when the gateway falls back
+-- and seeds the configurable fallback chains
+
+-- ============================================
+-- 1. TRACK REQUESTED VS SERVING PROVIDER
+-- ============================================
+
+-- provider/model keep meaning "who served the response"; these record what was asked for
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS requested_provider TEXT;
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS requested_model TEXT;
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS fallback_attempts INT DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_ai_interactions_fallback
+ON ai_interactions(fallback_attempts)
+WHERE fallback_attempts > 0;
+
+COMMENT ON COLUMN ai_interactions.requested_provider IS 'Provider the client asked for (provider column holds the one that served it)';
+COMMENT ON COLUMN ai_interactions.requested_model IS 'Model the client asked for (model column holds the one that served it)';
+COMMENT ON COLUMN ai_interactions.fallback_attempts IS 'Number of providers that failed before one served the request';
+
+-- ============================================
+-- 2. FALLBACK CHAIN SETTINGS
+-- ============================================
+
+-- JSON object keyed by promptType, "default" applies to every other prompt type
+INSERT INTO global_settings (key, value, description) VALUES
+  (
+    'ai_fallback_chains',
+    '{"default": [{"provider": "openai", "model": "gpt-5.1"}, {"provider": "anthropic", "model": "claude-sonnet-4-5-20250929"}]}',
+    'Provider fallback chain per promptType, tried in order on retryable errors before the first token'
+  )
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- 3. FAILOVER VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW ai_provider_failovers AS
+SELECT
+  requested_provider,
+  requested_model,
+  provider as served_provider,
+  model as served_model,
+  prompt_type,
+  COUNT(*) as failover_count,
+  MAX(timestamp) as last_occurrence
+FROM ai_interactions
+WHERE status = 'success' AND fallback_attempts > 0
+GROUP BY requested_provider, requested_model, provider, model, prompt_type
+ORDER BY failover_count DESC;
+
+COMMENT ON VIEW ai_provider_failovers IS 'Requests served by a fallback provider, grouped by requested and serving model';
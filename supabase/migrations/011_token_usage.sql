@@ -0,0 +1,39 @@
+-- Token Usage Migration
+-- Stores the real input/output/cached token counts parsed from the provider streams
+-- (tokens_used already exists and now holds the provider-reported total)
+
+-- ============================================
+-- 1. TOKEN COLUMNS
+-- ============================================
+
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS input_tokens INT;
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS output_tokens INT;
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS cached_tokens INT;
+
+COMMENT ON COLUMN ai_interactions.tokens_used IS 'Total tokens reported by the provider (input + output)';
+COMMENT ON COLUMN ai_interactions.input_tokens IS 'Prompt tokens including any served from the provider cache';
+COMMENT ON COLUMN ai_interactions.output_tokens IS 'Completion tokens including reasoning/thinking tokens';
+COMMENT ON COLUMN ai_interactions.cached_tokens IS 'Prompt tokens read from the provider prompt cache';
+
+-- ============================================
+-- 2. TOKEN USAGE VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW ai_token_usage_daily AS
+SELECT
+  DATE(timestamp) as date,
+  provider,
+  model,
+  prompt_type,
+  COUNT(*) as responses,
+  SUM(input_tokens) as input_tokens,
+  SUM(output_tokens) as output_tokens,
+  SUM(cached_tokens) as cached_tokens,
+  SUM(tokens_used) as total_tokens,
+  ROUND(AVG(tokens_used), 0) as avg_tokens_per_response
+FROM ai_interactions
+WHERE status = 'success' AND tokens_used IS NOT NULL
+GROUP BY DATE(timestamp), provider, model, prompt_type
+ORDER BY date DESC, total_tokens DESC;
+
+COMMENT ON VIEW ai_token_usage_daily IS 'Daily token consumption by provider, model and prompt type';
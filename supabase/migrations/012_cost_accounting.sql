@@ -0,0 +1,132 @@
+-- Cost Accounting Migration
+-- Adds a model pricing table, a per-interaction USD cost and cost breakdown views
+
+-- ============================================
+-- 1. MODEL PRICING TABLE
+-- ============================================
+
+-- One row per billable model. The backend matches exact names first, then the
+-- longest key a model name starts with (e.g. claude-sonnet-4-5 -> claude-sonnet-4-5-20250929).
+-- Only the columns that apply to a model's billing unit need a value.
+CREATE TABLE IF NOT EXISTS model_pricing (
+  model TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  input_per_million NUMERIC(12, 6),
+  cached_input_per_million NUMERIC(12, 6),
+  output_per_million NUMERIC(12, 6),
+  per_image NUMERIC(12, 6),
+  per_million_characters NUMERIC(12, 6),
+  notes TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE model_pricing IS 'USD list prices per model, used to compute ai_interactions.cost_usd';
+COMMENT ON COLUMN model_pricing.input_per_million IS 'USD per 1M uncached input tokens';
+COMMENT ON COLUMN model_pricing.cached_input_per_million IS 'USD per 1M input tokens read from the prompt cache';
+COMMENT ON COLUMN model_pricing.output_per_million IS 'USD per 1M output tokens (including reasoning tokens)';
+COMMENT ON COLUMN model_pricing.per_image IS 'USD per generated image';
+COMMENT ON COLUMN model_pricing.per_million_characters IS 'USD per 1M characters of synthesized text';
+
+INSERT INTO model_pricing (model, provider, input_per_million, cached_input_per_million, output_per_million, per_image, per_million_characters, notes) VALUES
+  ('gpt-5.1', 'openai', 1.25, 0.125, 10.00, NULL, NULL, NULL),
+  ('gpt-5-nano', 'openai', 0.05, 0.005, 0.40, NULL, NULL, NULL),
+  ('claude-sonnet-4-5', 'anthropic', 3.00, 0.30, 15.00, NULL, NULL, NULL),
+  ('gemini-2.5-flash', 'gemini', 0.30, 0.075, 2.50, NULL, NULL, NULL),
+  ('text-embedding-3-small', 'openai', 0.02, NULL, NULL, NULL, NULL, NULL),
+  ('dall-e-3', 'openai', NULL, NULL, NULL, 0.04, NULL, 'Standard quality 1024x1024'),
+  ('imagen-4.0-fast', 'gemini', NULL, NULL, NULL, 0.02, NULL, NULL),
+  ('gpt-4o-mini-tts', 'openai', NULL, NULL, NULL, NULL, 15.00, 'Approximation from per-minute audio pricing'),
+  ('eleven_turbo_v2_5', 'elevenlabs', NULL, NULL, NULL, NULL, 50.00, 'Effective rate on current subscription plan'),
+  ('hume-tts', 'hume', NULL, NULL, NULL, NULL, 150.00, 'Effective rate on current subscription plan')
+ON CONFLICT (model) DO NOTHING;
+
+ALTER TABLE model_pricing ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to model_pricing" ON model_pricing
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- 2. COST AND DEVICE ON EVERY INTERACTION
+-- ============================================
+
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(14, 8);
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS device_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ai_interactions_device_id ON ai_interactions(device_id);
+
+COMMENT ON COLUMN ai_interactions.cost_usd IS 'Computed USD cost from model_pricing (0 for pending/error rows, NULL when unpriced)';
+COMMENT ON COLUMN ai_interactions.device_id IS 'Device that made the request, for per-device cost attribution';
+
+ALTER TABLE IF EXISTS embedding_usage ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(14, 8);
+
+-- ============================================
+-- 3. COST VIEWS
+-- ============================================
+
+-- Some routes write created_at instead of timestamp, so day buckets use whichever is set
+
+CREATE OR REPLACE VIEW ai_cost_by_user AS
+SELECT
+  user_id,
+  COUNT(*) FILTER (WHERE status = 'success') as billed_requests,
+  SUM(cost_usd) as total_cost_usd,
+  ROUND(AVG(cost_usd) FILTER (WHERE status = 'success'), 6) as avg_cost_per_request_usd,
+  COUNT(*) FILTER (WHERE status = 'success' AND cost_usd IS NULL) as unpriced_requests
+FROM ai_interactions
+GROUP BY user_id
+ORDER BY total_cost_usd DESC NULLS LAST;
+
+CREATE OR REPLACE VIEW ai_cost_by_device AS
+SELECT
+  device_id,
+  COUNT(DISTINCT user_id) as users,
+  COUNT(*) FILTER (WHERE status = 'success') as billed_requests,
+  SUM(cost_usd) as total_cost_usd,
+  ROUND(AVG(cost_usd) FILTER (WHERE status = 'success'), 6) as avg_cost_per_request_usd
+FROM ai_interactions
+WHERE device_id IS NOT NULL
+GROUP BY device_id
+ORDER BY total_cost_usd DESC NULLS LAST;
+
+CREATE OR REPLACE VIEW ai_cost_by_coach AS
+SELECT
+  coach_id,
+  COUNT(*) FILTER (WHERE status = 'success') as billed_requests,
+  COUNT(DISTINCT session_id) as sessions,
+  SUM(cost_usd) as total_cost_usd,
+  ROUND(SUM(cost_usd) / NULLIF(COUNT(DISTINCT session_id), 0), 6) as avg_cost_per_session_usd
+FROM ai_interactions
+WHERE coach_id IS NOT NULL
+GROUP BY coach_id
+ORDER BY total_cost_usd DESC NULLS LAST;
+
+CREATE OR REPLACE VIEW ai_cost_by_prompt_type AS
+SELECT
+  prompt_type,
+  provider,
+  model,
+  COUNT(*) FILTER (WHERE status = 'success') as billed_requests,
+  SUM(input_tokens) as input_tokens,
+  SUM(output_tokens) as output_tokens,
+  SUM(cost_usd) as total_cost_usd,
+  ROUND(AVG(cost_usd) FILTER (WHERE status = 'success'), 6) as avg_cost_per_request_usd
+FROM ai_interactions
+GROUP BY prompt_type, provider, model
+ORDER BY total_cost_usd DESC NULLS LAST;
+
+CREATE OR REPLACE VIEW ai_cost_daily AS
+SELECT
+  DATE(COALESCE(timestamp, created_at)) as date,
+  provider,
+  COUNT(*) FILTER (WHERE status = 'success') as billed_requests,
+  COUNT(DISTINCT user_id) as users,
+  SUM(cost_usd) as total_cost_usd
+FROM ai_interactions
+GROUP BY DATE(COALESCE(timestamp, created_at)), provider
+ORDER BY date DESC, total_cost_usd DESC NULLS LAST;
+
+COMMENT ON VIEW ai_cost_by_user IS 'Total and average AI cost per user';
+COMMENT ON VIEW ai_cost_by_device IS 'Total and average AI cost per device';
+COMMENT ON VIEW ai_cost_by_coach IS 'AI cost per coach, including average cost per coaching session';
+COMMENT ON VIEW ai_cost_by_prompt_type IS 'AI cost per prompt type/feature and model';
+COMMENT ON VIEW ai_cost_daily IS 'Daily AI cost per provider';
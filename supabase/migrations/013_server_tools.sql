@@ -0,0 +1,55 @@
+-- Server Tools Migration
+-- Tables read by the gateway's server-side tools (get_user_goals, search_user_memory).
+-- The app syncs goals and memories here (PUT /api/user-goals, POST /api/user-memories)
+-- so the model can look them up mid-conversation.
+
+-- ============================================
+-- 1. USER GOALS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS user_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  app_goal_id TEXT NOT NULL, -- The goal's id in the app, so a sync updates it in place
+  title TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'archived')),
+  target_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, app_goal_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_goals_user_status ON user_goals(user_id, status, updated_at DESC);
+
+-- ============================================
+-- 2. USER MEMORIES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS user_memories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  category TEXT,
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_memories_user_id ON user_memories(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_memories_search ON user_memories USING GIN(search_vector);
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+
+ALTER TABLE user_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to user_goals" ON user_goals
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to user_memories" ON user_memories
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE user_goals IS 'User goals synced from the app, read by the get_user_goals server tool';
+COMMENT ON TABLE user_memories IS 'Facts users shared in past sessions, searched by the search_user_memory server tool';
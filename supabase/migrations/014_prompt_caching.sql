@@ -0,0 +1,59 @@
+-- Prompt Caching Migration
+-- Records prompt cache writes next to the existing cache reads (cached_tokens)
+-- and prices them, so the savings from Anthropic cache breakpoints can be measured
+
+-- ============================================
+-- 1. CACHE WRITE TOKENS
+-- ============================================
+
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS cache_write_tokens INT;
+
+COMMENT ON COLUMN ai_interactions.cached_tokens IS 'Prompt tokens read from the provider prompt cache (cache reads)';
+COMMENT ON COLUMN ai_interactions.cache_write_tokens IS 'Prompt tokens written to the provider prompt cache (Anthropic cache_creation_input_tokens)';
+
+-- ============================================
+-- 2. CACHE WRITE PRICING
+-- ============================================
+
+ALTER TABLE model_pricing ADD COLUMN IF NOT EXISTS cache_write_per_million NUMERIC(12, 6);
+
+COMMENT ON COLUMN model_pricing.cache_write_per_million IS 'USD per 1M input tokens written to the prompt cache (defaults to the input rate)';
+
+-- 5-minute cache writes cost 1.25x the base input rate
+UPDATE model_pricing SET cache_write_per_million = 3.75 WHERE model = 'claude-sonnet-4-5' AND cache_write_per_million IS NULL;
+
+-- ============================================
+-- 3. CACHE SAVINGS VIEW
+-- ============================================
+
+-- Savings = reads billed at the cached rate instead of the input rate,
+-- minus the premium paid for writing to the cache
+CREATE OR REPLACE VIEW ai_prompt_cache_daily AS
+SELECT
+  DATE(ai.timestamp) as date,
+  ai.provider,
+  ai.model,
+  COUNT(*) as responses,
+  SUM(ai.input_tokens) as input_tokens,
+  SUM(ai.cached_tokens) as cache_read_tokens,
+  SUM(ai.cache_write_tokens) as cache_write_tokens,
+  ROUND(SUM(ai.cached_tokens)::DECIMAL / NULLIF(SUM(ai.input_tokens), 0) * 100, 2) as cache_hit_rate,
+  ROUND(
+    SUM(COALESCE(ai.cached_tokens, 0)) * (MAX(p.input_per_million) - COALESCE(MAX(p.cached_input_per_million), MAX(p.input_per_million))) / 1000000
+    - SUM(COALESCE(ai.cache_write_tokens, 0)) * (COALESCE(MAX(p.cache_write_per_million), MAX(p.input_per_million)) - MAX(p.input_per_million)) / 1000000,
+    6
+  ) as estimated_savings_usd
+FROM ai_interactions ai
+LEFT JOIN LATERAL (
+  -- Same matching as the backend: exact name, else the longest matching prefix
+  SELECT mp.input_per_million, mp.cached_input_per_million, mp.cache_write_per_million
+  FROM model_pricing mp
+  WHERE ai.model LIKE mp.model || '%'
+  ORDER BY LENGTH(mp.model) DESC
+  LIMIT 1
+) p ON true
+WHERE ai.status = 'success' AND ai.input_tokens IS NOT NULL
+GROUP BY DATE(ai.timestamp), ai.provider, ai.model
+ORDER BY date DESC, cache_read_tokens DESC NULLS LAST;
+
+COMMENT ON VIEW ai_prompt_cache_daily IS 'Daily prompt cache reads/writes, hit rate and estimated savings per model';
@@ -0,0 +1,42 @@
+-- Stream Replay Migration
+-- Short-lived buffer of gateway SSE events so a client that reconnects with
+-- Last-Event-ID can get the events it missed without a second model call
+
+-- ============================================
+-- 1. STREAM BUFFERS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS ai_stream_buffers (
+  request_id TEXT PRIMARY KEY,
+  user_id TEXT,
+  device_id TEXT, -- With user_id, who may replay the stream
+  protocol_version INTEGER NOT NULL, -- SSE protocol the events are encoded in
+  status TEXT NOT NULL DEFAULT 'streaming' CHECK (status IN ('streaming', 'completed', 'failed')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Expired rows are deleted by the gateway whenever a stream finishes
+CREATE INDEX IF NOT EXISTS idx_ai_stream_buffers_expires_at ON ai_stream_buffers(expires_at);
+
+ALTER TABLE ai_stream_buffers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to ai_stream_buffers" ON ai_stream_buffers
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- One row per event, so a stream in progress only ever inserts its new events.
+-- Audio events are sent live only and never stored.
+CREATE TABLE IF NOT EXISTS ai_stream_events (
+  request_id TEXT NOT NULL REFERENCES ai_stream_buffers(request_id) ON DELETE CASCADE,
+  id INTEGER NOT NULL, -- The sequence in the event id "<requestId>:<sequence>"
+  data TEXT NOT NULL, -- The encoded event, e.g. {"chunk":"..."}
+  PRIMARY KEY (request_id, id)
+);
+
+ALTER TABLE ai_stream_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to ai_stream_events" ON ai_stream_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE ai_stream_buffers IS 'Gateway streams kept ~10 minutes for Last-Event-ID replay; events are in ai_stream_events';
+COMMENT ON TABLE ai_stream_events IS 'Buffered SSE events of the streams in ai_stream_buffers (deleted with them)';
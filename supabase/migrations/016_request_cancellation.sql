@@ -0,0 +1,34 @@
+-- Request Cancellation Migration
+-- Lets POST /api/ai-gateway/cancel stop a request running on another instance,
+-- and records cancelled streams and interactions
+
+-- ============================================
+-- 1. CANCELLATION REQUESTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS ai_request_cancellations (
+  request_id TEXT PRIMARY KEY,
+  user_id TEXT, -- Who asked; the running request ignores it unless they match its owner
+  device_id TEXT,
+  verified BOOLEAN NOT NULL DEFAULT false, -- user_id was proven by an access token
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_request_cancellations_requested_at ON ai_request_cancellations(requested_at);
+
+ALTER TABLE ai_request_cancellations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to ai_request_cancellations" ON ai_request_cancellations
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE ai_request_cancellations IS 'Cancel requests polled by running gateway requests (rows older than a day can be deleted)';
+
+-- ============================================
+-- 2. CANCELLED STATUS
+-- ============================================
+
+ALTER TABLE ai_stream_buffers DROP CONSTRAINT IF EXISTS ai_stream_buffers_status_check;
+ALTER TABLE ai_stream_buffers ADD CONSTRAINT ai_stream_buffers_status_check
+  CHECK (status IN ('streaming', 'completed', 'failed', 'cancelled'));
+
+COMMENT ON COLUMN ai_interactions.status IS 'pending, success, error or cancelled (stopped through the cancel endpoint)';
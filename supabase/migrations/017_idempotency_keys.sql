@@ -0,0 +1,32 @@
+-- Idempotency Keys Migration
+-- Stores the result of requests sent with an Idempotency-Key header so mobile
+-- retries don't run the work (and count against usage_limits) a second time
+
+-- ============================================
+-- 1. IDEMPOTENCY KEYS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  route TEXT NOT NULL, -- e.g. 'ai-gateway', 'generate-image', 'openai-tts'
+  scope TEXT NOT NULL, -- The client the key belongs to: 'user:<id>|device:<id>', or 'ip:<address>'
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL, -- SHA-256 of the request body; a reused key with a different body is rejected
+  request_id TEXT, -- Gateway request id, so a retry can replay the original SSE stream
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  response_status INT,
+  response_body JSONB, -- JSON body, or a base64 string for binary responses
+  response_content_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (route, scope, idempotency_key)
+);
+
+-- Expired rows are deleted whenever a new key is claimed
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to idempotency_keys" ON idempotency_keys
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE idempotency_keys IS 'Idempotency-Key results per route (24h, or 10 minutes for gateway streams)';
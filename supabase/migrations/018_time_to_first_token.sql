@@ -0,0 +1,32 @@
+-- Time To First Token Migration
+-- Records how long the gateway waited for the first text chunk or tool call,
+-- to see how much of a response's latency is the model thinking
+
+-- ============================================
+-- 1. TIME TO FIRST TOKEN
+-- ============================================
+
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS time_to_first_token_ms INT;
+
+COMMENT ON COLUMN ai_interactions.time_to_first_token_ms IS 'Milliseconds from the start of generation to the first text chunk or tool call';
+
+-- ============================================
+-- 2. DAILY TTFT VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW ai_time_to_first_token_daily AS
+SELECT
+  DATE(timestamp) as date,
+  provider,
+  model,
+  COUNT(*) as responses,
+  ROUND(AVG(time_to_first_token_ms)) as avg_ttft_ms,
+  PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY time_to_first_token_ms) as p50_ttft_ms,
+  PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY time_to_first_token_ms) as p95_ttft_ms,
+  ROUND(AVG(response_time_ms)) as avg_response_time_ms
+FROM ai_interactions
+WHERE status = 'success' AND time_to_first_token_ms IS NOT NULL
+GROUP BY DATE(timestamp), provider, model
+ORDER BY date DESC, responses DESC;
+
+COMMENT ON VIEW ai_time_to_first_token_daily IS 'Daily time-to-first-token percentiles per model';
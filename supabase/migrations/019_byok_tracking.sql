@@ -0,0 +1,35 @@
+-- Bring Your Own Key Migration
+-- Marks interactions that ran on the user's own provider key, so their cost
+-- can be told apart from ours and BYOK usage can be watched for abuse.
+-- Only the flag is stored - never the key.
+
+-- ============================================
+-- 1. BYOK FLAG
+-- ============================================
+
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS is_byok BOOLEAN DEFAULT false;
+
+COMMENT ON COLUMN ai_interactions.is_byok IS 'Request ran on the user''s own provider API key (the key itself is never stored)';
+
+CREATE INDEX IF NOT EXISTS idx_ai_interactions_is_byok ON ai_interactions(is_byok) WHERE is_byok = true;
+
+-- ============================================
+-- 2. DAILY BYOK USAGE VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW ai_byok_usage_daily AS
+SELECT
+  DATE(timestamp) as date,
+  provider,
+  is_byok,
+  COUNT(*) FILTER (WHERE status = 'success') as responses,
+  COUNT(*) FILTER (WHERE status = 'error') as errors,
+  COUNT(DISTINCT user_id) as users,
+  SUM(tokens_used) as tokens_used,
+  ROUND(SUM(cost_usd)::numeric, 4) as cost_usd -- Paid by the user when is_byok
+FROM ai_interactions
+WHERE status IN ('success', 'error')
+GROUP BY DATE(timestamp), provider, is_byok
+ORDER BY date DESC, provider, is_byok;
+
+COMMENT ON VIEW ai_byok_usage_daily IS 'Daily usage and cost split between server keys and user keys';
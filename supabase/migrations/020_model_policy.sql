@@ -0,0 +1,86 @@
+-- Model Policy Migration
+-- Server-side model allowlist per user tier and promptType. Requests for a
+-- model the tier can't use are downgraded instead of rejected.
+
+-- ============================================
+-- 1. USER TIER
+-- ============================================
+
+ALTER TABLE user_limits ADD COLUMN IF NOT EXISTS model_tier TEXT;
+
+COMMENT ON COLUMN user_limits.model_tier IS 'Tier in ai_model_policy that decides which models the user may use (NULL = the policy''s defaultTier)';
+
+-- ============================================
+-- 2. MODEL POLICY SETTING
+-- ============================================
+
+-- tiers: tier -> promptType ("default" covers every other prompt type) -> { allowed, default }
+-- downgrades: model -> cheaper replacement, followed until the tier allows one;
+-- if none is allowed the rule's default model is used
+INSERT INTO global_settings (key, value, description) VALUES
+  (
+    'ai_model_policy',
+    '{
+      "defaultTier": "free",
+      "tiers": {
+        "free": {
+          "default": {
+            "allowed": [
+              {"provider": "openai", "model": "gpt-5.1"},
+              {"provider": "openai", "model": "gpt-5-nano"},
+              {"provider": "gemini", "model": "gemini-2.5-flash"}
+            ],
+            "default": {"provider": "openai", "model": "gpt-5.1"}
+          },
+          "dailyMetrics": {
+            "allowed": [{"provider": "openai", "model": "gpt-5-nano"}, {"provider": "gemini", "model": "gemini-2.5-flash"}],
+            "default": {"provider": "openai", "model": "gpt-5-nano"}
+          },
+          "dailyBoosts": {
+            "allowed": [{"provider": "openai", "model": "gpt-5-nano"}, {"provider": "gemini", "model": "gemini-2.5-flash"}],
+            "default": {"provider": "openai", "model": "gpt-5-nano"}
+          }
+        },
+        "premium": {
+          "default": {
+            "allowed": [
+              {"provider": "openai", "model": "gpt-5.1"},
+              {"provider": "openai", "model": "gpt-5-nano"},
+              {"provider": "anthropic", "model": "claude-sonnet-4-5-20250929"},
+              {"provider": "gemini", "model": "gemini-2.5-flash"}
+            ],
+            "default": {"provider": "openai", "model": "gpt-5.1"}
+          }
+        }
+      },
+      "downgrades": {
+        "claude-sonnet-4-5-20250929": {"provider": "gemini", "model": "gemini-2.5-flash"},
+        "gpt-5.1": {"provider": "openai", "model": "gpt-5-nano"}
+      }
+    }',
+    'Allowed and default models per user tier and promptType, with downgrades for models a tier cannot use'
+  )
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- 3. DOWNGRADE VIEW
+-- ============================================
+
+-- A different served model without failover attempts means the policy replaced it
+CREATE OR REPLACE VIEW ai_model_downgrades AS
+SELECT
+  requested_model,
+  model as served_model,
+  prompt_type,
+  COUNT(*) as downgrade_count,
+  COUNT(DISTINCT user_id) as users,
+  MAX(timestamp) as last_occurrence
+FROM ai_interactions
+WHERE status = 'success'
+  AND fallback_attempts = 0
+  AND requested_model IS NOT NULL
+  AND requested_model <> model
+GROUP BY requested_model, model, prompt_type
+ORDER BY downgrade_count DESC;
+
+COMMENT ON VIEW ai_model_downgrades IS 'Requests whose model was replaced by the tier model policy';
@@ -0,0 +1,129 @@
+-- Prompt Templates Migration
+-- Versioned server-side system prompts, resolved by the gateway from promptType
+-- (and optionally coachId), and the template version on every interaction
+
+-- ============================================
+-- 1. PROMPT TEMPLATES TABLE
+-- ============================================
+
+-- content may use {{name}} placeholders filled from the request's promptVariables,
+-- plus {{date}} (YYYY-MM-DD) and {{appPrompt}} (the system prompt the app sent).
+-- Versions are never edited in place: publish a new one with publish_prompt_template.
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_type TEXT NOT NULL,
+  coach_id TEXT, -- NULL = every coach
+  version INT NOT NULL,
+  content TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- COALESCE so the NULL (every coach) templates are versioned and activated together
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_version
+ON prompt_templates(prompt_type, COALESCE(coach_id, ''), version);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_active
+ON prompt_templates(prompt_type, COALESCE(coach_id, ''))
+WHERE is_active;
+
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to prompt_templates" ON prompt_templates
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE prompt_templates IS 'Versioned system prompts per promptType (and coach); the active version replaces the app''s system prompt';
+COMMENT ON COLUMN prompt_templates.is_active IS 'At most one active version per promptType and coach';
+
+-- Add a new version and make it the active one
+CREATE OR REPLACE FUNCTION publish_prompt_template(
+  p_prompt_type TEXT,
+  p_content TEXT,
+  p_coach_id TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS prompt_templates AS $$
+DECLARE
+  v_template prompt_templates;
+BEGIN
+  UPDATE prompt_templates
+  SET is_active = false
+  WHERE prompt_type = p_prompt_type
+    AND coach_id IS NOT DISTINCT FROM p_coach_id
+    AND is_active;
+
+  INSERT INTO prompt_templates (prompt_type, coach_id, version, content, is_active, notes)
+  SELECT
+    p_prompt_type,
+    p_coach_id,
+    COALESCE(MAX(version), 0) + 1,
+    p_content,
+    true,
+    p_notes
+  FROM prompt_templates
+  WHERE prompt_type = p_prompt_type
+    AND coach_id IS NOT DISTINCT FROM p_coach_id
+  RETURNING * INTO v_template;
+
+  RETURN v_template;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Roll back (or forward) to an existing version
+CREATE OR REPLACE FUNCTION activate_prompt_template(p_template_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_target prompt_templates;
+BEGIN
+  SELECT * INTO v_target FROM prompt_templates WHERE id = p_template_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prompt template % not found', p_template_id;
+  END IF;
+
+  UPDATE prompt_templates
+  SET is_active = false
+  WHERE prompt_type = v_target.prompt_type
+    AND coach_id IS NOT DISTINCT FROM v_target.coach_id
+    AND is_active;
+
+  UPDATE prompt_templates SET is_active = true WHERE id = p_template_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 2. TEMPLATE VERSION ON EVERY INTERACTION
+-- ============================================
+
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS prompt_template_id UUID;
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS prompt_template_version INT;
+
+CREATE INDEX IF NOT EXISTS idx_ai_interactions_prompt_template
+ON ai_interactions(prompt_template_id)
+WHERE prompt_template_id IS NOT NULL;
+
+COMMENT ON COLUMN ai_interactions.prompt_template_id IS 'Server-side prompt template used (NULL = the app''s own system prompt)';
+COMMENT ON COLUMN ai_interactions.prompt_template_version IS 'Version of prompt_template_id at the time of the request';
+
+-- ============================================
+-- 3. TEMPLATE PERFORMANCE VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW ai_prompt_template_stats AS
+SELECT
+  t.prompt_type,
+  t.coach_id,
+  t.version,
+  t.is_active,
+  COUNT(*) FILTER (WHERE i.status = 'success') as responses,
+  COUNT(*) FILTER (WHERE i.status = 'error') as errors,
+  ROUND(AVG(i.response_length) FILTER (WHERE i.status = 'success')) as avg_response_length,
+  ROUND(AVG(i.response_time_ms) FILTER (WHERE i.status = 'success')) as avg_response_time_ms,
+  ROUND(SUM(i.cost_usd)::numeric, 4) as cost_usd,
+  MAX(i.timestamp) as last_used
+FROM prompt_templates t
+LEFT JOIN ai_interactions i ON i.prompt_template_id = t.id
+GROUP BY t.id, t.prompt_type, t.coach_id, t.version, t.is_active
+ORDER BY t.prompt_type, t.coach_id NULLS FIRST, t.version DESC;
+
+COMMENT ON VIEW ai_prompt_template_stats IS 'Usage, errors and cost per prompt template version';
@@ -0,0 +1,135 @@
+-- AI Experiments Migration
+-- A/B experiments over model, temperature and prompt template version. Devices
+-- (or users) are assigned to an arm deterministically by the gateway, which tags
+-- every interaction with the experiment and arm; the views compare the arms.
+
+-- ============================================
+-- 1. EXPERIMENTS AND ARMS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS ai_experiments (
+  id TEXT PRIMARY KEY, -- Short slug, e.g. 'coach-prompt-v3'
+  description TEXT,
+  prompt_type TEXT, -- NULL = every promptType
+  assignment_unit TEXT NOT NULL DEFAULT 'device' CHECK (assignment_unit IN ('device', 'user')),
+  traffic_percent INT NOT NULL DEFAULT 100 CHECK (traffic_percent BETWEEN 0 AND 100),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  started_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Unset columns keep whatever the request would have used without the experiment,
+-- so a control arm is just an arm with no overrides
+CREATE TABLE IF NOT EXISTS ai_experiment_arms (
+  experiment_id TEXT NOT NULL REFERENCES ai_experiments(id) ON DELETE CASCADE,
+  id TEXT NOT NULL, -- e.g. 'control', 'treatment'
+  weight INT NOT NULL DEFAULT 1 CHECK (weight >= 0),
+  provider TEXT,
+  model TEXT,
+  temperature REAL,
+  prompt_template_id UUID REFERENCES prompt_templates(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (experiment_id, id)
+);
+
+ALTER TABLE ai_experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_experiment_arms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to ai_experiments" ON ai_experiments
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role has full access to ai_experiment_arms" ON ai_experiment_arms
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE ai_experiments IS 'A/B experiments; only status = running experiments assign requests';
+COMMENT ON COLUMN ai_experiments.traffic_percent IS 'Share of devices/users enrolled; the rest get the normal behaviour';
+COMMENT ON COLUMN ai_experiment_arms.weight IS 'Relative share of enrolled devices/users (0 = no new traffic)';
+COMMENT ON COLUMN ai_experiment_arms.temperature IS 'Ignored by OpenAI GPT-5 models, which only accept the default';
+
+-- ============================================
+-- 2. EXPERIMENT TAGS ON EVERY INTERACTION
+-- ============================================
+
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS experiment_id TEXT;
+ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS experiment_arm_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ai_interactions_experiment
+ON ai_interactions(experiment_id, experiment_arm_id)
+WHERE experiment_id IS NOT NULL;
+
+COMMENT ON COLUMN ai_interactions.experiment_id IS 'A/B experiment the request was enrolled in';
+COMMENT ON COLUMN ai_interactions.experiment_arm_id IS 'Arm of experiment_id the request ran in';
+
+-- ============================================
+-- 3. COMPARISON VIEWS
+-- ============================================
+
+-- Latency, errors, tokens and cost per arm. Requests are counted from the
+-- pending rows, so error_rate covers every request that reached the model.
+CREATE OR REPLACE VIEW ai_experiment_results AS
+SELECT
+  experiment_id,
+  experiment_arm_id,
+  COUNT(*) FILTER (WHERE status = 'pending') as requests,
+  COUNT(*) FILTER (WHERE status = 'success') as responses,
+  COUNT(*) FILTER (WHERE status = 'error') as errors,
+  ROUND(100.0 * COUNT(*) FILTER (WHERE status = 'error') /
+    NULLIF(COUNT(*) FILTER (WHERE status = 'pending'), 0), 2) as error_rate_percent,
+  COUNT(DISTINCT device_id) as devices,
+  ROUND(AVG(response_time_ms) FILTER (WHERE status = 'success')) as avg_latency_ms,
+  PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY response_time_ms) FILTER (WHERE status = 'success') as p95_latency_ms,
+  ROUND(AVG(time_to_first_token_ms) FILTER (WHERE status = 'success')) as avg_ttft_ms,
+  ROUND(AVG(tokens_used) FILTER (WHERE status = 'success')) as avg_tokens,
+  ROUND(AVG(cost_usd) FILTER (WHERE status = 'success')::numeric, 6) as avg_cost_usd,
+  ROUND(SUM(cost_usd)::numeric, 4) as total_cost_usd
+FROM ai_interactions
+WHERE experiment_id IS NOT NULL
+GROUP BY experiment_id, experiment_arm_id
+ORDER BY experiment_id, experiment_arm_id;
+
+COMMENT ON VIEW ai_experiment_results IS 'Per-arm latency, error rate, token and cost comparison for A/B experiments';
+
+-- How long conversations last per arm (a session is one session_id)
+CREATE OR REPLACE VIEW ai_experiment_sessions AS
+WITH sessions AS (
+  SELECT
+    experiment_id,
+    experiment_arm_id,
+    session_id,
+    COUNT(*) FILTER (WHERE status = 'success') as turns,
+    EXTRACT(EPOCH FROM MAX(timestamp) - MIN(timestamp)) / 60 as duration_minutes
+  FROM ai_interactions
+  WHERE experiment_id IS NOT NULL AND session_id IS NOT NULL
+  GROUP BY experiment_id, experiment_arm_id, session_id
+)
+SELECT
+  experiment_id,
+  experiment_arm_id,
+  COUNT(*) as sessions,
+  ROUND(AVG(turns), 2) as avg_turns_per_session,
+  PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY turns) as median_turns_per_session,
+  ROUND(AVG(duration_minutes)::numeric, 1) as avg_session_minutes
+FROM sessions
+GROUP BY experiment_id, experiment_arm_id
+ORDER BY experiment_id, experiment_arm_id;
+
+COMMENT ON VIEW ai_experiment_sessions IS 'Per-arm session length (turns and minutes) for A/B experiments';
+
+-- Experiment arms replace the model on purpose, so they aren't downgrades
+CREATE OR REPLACE VIEW ai_model_downgrades AS
+SELECT
+  requested_model,
+  model as served_model,
+  prompt_type,
+  COUNT(*) as downgrade_count,
+  COUNT(DISTINCT user_id) as users,
+  MAX(timestamp) as last_occurrence
+FROM ai_interactions
+WHERE status = 'success'
+  AND fallback_attempts = 0
+  AND experiment_id IS NULL
+  AND requested_model IS NOT NULL
+  AND requested_model <> model
+GROUP BY requested_model, model, prompt_type
+ORDER BY downgrade_count DESC;
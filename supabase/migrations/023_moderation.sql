@@ -0,0 +1,82 @@
+-- Input Moderation Migration
+-- Log of flagged user input (OpenAI moderation, or local patterns when it is
+-- unreachable) and the policy deciding which categories block or warn
+
+-- ============================================
+-- 1. MODERATION EVENTS TABLE
+-- ============================================
+
+-- One row per distinct flagged input. content_hash lets a flagged message the
+-- client keeps sending back in previousMessages be recognised instead of logged
+-- (and counted) again on every request.
+CREATE TABLE IF NOT EXISTS moderation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT,
+  device_id TEXT,
+  ip_address TEXT,
+  request_id TEXT NOT NULL,
+  prompt_type TEXT,
+  action TEXT NOT NULL CHECK (action IN ('allow', 'warn', 'block')),
+  source TEXT NOT NULL CHECK (source IN ('openai', 'local')),
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  category_scores JSONB,
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  is_history BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_events_user ON moderation_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_events_device ON moderation_events(device_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_events_ip ON moderation_events(ip_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_events_action ON moderation_events(action, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_events_hash ON moderation_events(content_hash);
+
+ALTER TABLE moderation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to moderation_events" ON moderation_events
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE moderation_events IS 'User input flagged by moderation, with the action taken';
+COMMENT ON COLUMN moderation_events.action IS 'block = request rejected, warn = answered with a moderation event, allow = flagged in a category the policy ignores';
+COMMENT ON COLUMN moderation_events.category_scores IS 'OpenAI scores for this input (NULL for local matches)';
+COMMENT ON COLUMN moderation_events.content_hash IS 'sha256 of the trimmed input; inputs already logged for the same user (or device) are not logged again';
+COMMENT ON COLUMN moderation_events.is_history IS 'true = an earlier message from previousMessages, false = the new message of the request';
+
+-- ============================================
+-- 2. MODERATION POLICY SETTING
+-- ============================================
+
+-- Categories use OpenAI's names. Keys left out keep the built-in defaults.
+INSERT INTO global_settings (key, value, description) VALUES
+  (
+    'moderation_policy',
+    '{
+      "enabled": true,
+      "block": ["hate", "hate/threatening", "harassment/threatening", "sexual/minors", "illicit/violent"],
+      "warn": ["harassment", "violence", "violence/graphic", "self-harm", "self-harm/intent", "self-harm/instructions"],
+      "recentMessages": 4,
+      "flagUserOnBlock": false,
+      "exemptPromptTypes": ["dailyMetrics", "dailyBoosts", "summarizeConversation", "extractActionItems"]
+    }',
+    'Input moderation: categories that block or warn, earlier user messages checked, and whether a block flags the user'
+  )
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- 3. FLAGGED USERS VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW moderation_flagged_users AS
+SELECT
+  COALESCE(user_id, 'device:' || device_id) as subject,
+  user_id,
+  COUNT(DISTINCT content_hash) FILTER (WHERE action = 'block') as blocked_count,
+  COUNT(DISTINCT content_hash) FILTER (WHERE action = 'warn') as warned_count,
+  COUNT(DISTINCT device_id) as devices,
+  MAX(created_at) as last_flagged_at
+FROM moderation_events
+GROUP BY COALESCE(user_id, 'device:' || device_id), user_id
+ORDER BY blocked_count DESC, last_flagged_at DESC;
+
+COMMENT ON VIEW moderation_flagged_users IS 'Moderation blocks and warnings per user (or device when anonymous)';
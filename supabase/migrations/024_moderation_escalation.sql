@@ -0,0 +1,207 @@
+-- Moderation Escalation Migration
+-- Automatic bans from the moderation log (e.g. repeated blocked messages), an
+-- audit log of every automatic action, and temporary bans on the banned_* tables
+
+-- ============================================
+-- 1. MODERATION ACTIONS TABLE
+-- ============================================
+
+-- One row per automatic action. The bans it created point back to it through
+-- moderation_action_id, so reversing the action lifts exactly those bans.
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id TEXT NOT NULL,
+  user_id TEXT,
+  device_id TEXT,
+  ip_address TEXT,
+  ban_types TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMP WITH TIME ZONE, -- NULL = permanent
+  reason TEXT NOT NULL,
+  moderation_event_ids UUID[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'reversed')),
+  reversed_at TIMESTAMP WITH TIME ZONE,
+  reversed_by TEXT,
+  reversal_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_user ON moderation_actions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_device ON moderation_actions(device_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_ip ON moderation_actions(ip_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_status ON moderation_actions(status, created_at DESC);
+
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role has full access to moderation_actions" ON moderation_actions
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE moderation_actions IS 'Audit log of bans issued automatically by the moderation escalation rules';
+COMMENT ON COLUMN moderation_actions.rule_id IS 'Rule from moderation_escalation_policy that fired';
+COMMENT ON COLUMN moderation_actions.ban_types IS 'Bans created by this action (user, device, ip); targets that were already banned are left out';
+COMMENT ON COLUMN moderation_actions.moderation_event_ids IS 'moderation_events rows that triggered the rule';
+
+-- ============================================
+-- 2. TEMPORARY BANS
+-- ============================================
+
+ALTER TABLE banned_users ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE banned_devices ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE banned_ips ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE banned_users ADD COLUMN IF NOT EXISTS moderation_action_id UUID REFERENCES moderation_actions(id) ON DELETE SET NULL;
+ALTER TABLE banned_devices ADD COLUMN IF NOT EXISTS moderation_action_id UUID REFERENCES moderation_actions(id) ON DELETE SET NULL;
+ALTER TABLE banned_ips ADD COLUMN IF NOT EXISTS moderation_action_id UUID REFERENCES moderation_actions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN banned_users.expires_at IS 'When a temporary ban ends (NULL = permanent)';
+COMMENT ON COLUMN banned_devices.expires_at IS 'When a temporary ban ends (NULL = permanent)';
+COMMENT ON COLUMN banned_ips.expires_at IS 'When a temporary ban ends (NULL = permanent)';
+COMMENT ON COLUMN banned_users.moderation_action_id IS 'Automatic action that issued the ban (NULL = banned by an admin)';
+COMMENT ON COLUMN banned_devices.moderation_action_id IS 'Automatic action that issued the ban (NULL = banned by an admin)';
+COMMENT ON COLUMN banned_ips.moderation_action_id IS 'Automatic action that issued the ban (NULL = banned by an admin)';
+
+-- Expired bans stay in the tables for the record but no longer block access
+CREATE OR REPLACE FUNCTION is_user_banned(p_user_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM banned_users
+    WHERE user_id = p_user_id AND (expires_at IS NULL OR expires_at > NOW())
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION is_device_banned(p_device_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM banned_devices
+    WHERE device_id = p_device_id AND (expires_at IS NULL OR expires_at > NOW())
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION is_ip_banned(p_ip_address TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM banned_ips
+    WHERE ip_address = p_ip_address AND (expires_at IS NULL OR expires_at > NOW())
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- 3. REVERSING AN ACTION
+-- ============================================
+
+-- Lifts the bans the action created (bans since replaced by an admin or a later
+-- action are kept) and marks it reversed
+CREATE OR REPLACE FUNCTION reverse_moderation_action(
+  p_action_id UUID,
+  p_reversed_by TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS moderation_actions AS $$
+DECLARE
+  v_action moderation_actions;
+BEGIN
+  SELECT * INTO v_action FROM moderation_actions WHERE id = p_action_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Moderation action % not found', p_action_id;
+  END IF;
+  IF v_action.status = 'reversed' THEN
+    RETURN v_action;
+  END IF;
+
+  DELETE FROM banned_users WHERE moderation_action_id = p_action_id;
+  DELETE FROM banned_devices WHERE moderation_action_id = p_action_id;
+  DELETE FROM banned_ips WHERE moderation_action_id = p_action_id;
+
+  UPDATE moderation_actions
+  SET status = 'reversed',
+      reversed_at = NOW(),
+      reversed_by = p_reversed_by,
+      reversal_reason = p_reason
+  WHERE id = p_action_id
+  RETURNING * INTO v_action;
+
+  RETURN v_action;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 4. ESCALATION POLICY SETTING
+-- ============================================
+
+-- Rules are checked in order and the first that matches fires. Each counts the
+-- subject's (verified user, or IP when anonymous) distinct flagged messages with the
+-- given actions in the last windowHours - new messages only, not flags found in
+-- previousMessages - ignoring events already acted on.
+-- afterTemporaryBan rules only apply within afterTemporaryBan days of a
+-- temporary ban that was not reversed. durationHours null = permanent.
+-- Anonymous senders only ever get an IP ban, whatever the rule's ban list.
+INSERT INTO global_settings (key, value, description) VALUES
+  (
+    'moderation_escalation_policy',
+    '{
+      "enabled": true,
+      "rules": [
+        {
+          "id": "repeat-after-temporary-ban",
+          "events": 3,
+          "windowHours": 24,
+          "eventActions": ["block"],
+          "afterTemporaryBan": 30,
+          "ban": ["user", "device", "ip"],
+          "durationHours": null
+        },
+        {
+          "id": "repeated-blocked-messages",
+          "events": 3,
+          "windowHours": 24,
+          "eventActions": ["block"],
+          "ban": ["device"],
+          "durationHours": 24
+        }
+      ]
+    }',
+    'Automatic bans from the moderation log: flagged events in a time window, and escalation after a temporary ban'
+  )
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- 5. ADMIN REVIEW VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW moderation_actions_review AS
+SELECT
+  ma.id,
+  ma.rule_id,
+  ma.user_id,
+  ma.device_id,
+  ma.ip_address,
+  ma.ban_types,
+  ma.expires_at,
+  ma.reason,
+  ma.status,
+  CASE
+    WHEN ma.status = 'reversed' THEN 'reversed'
+    WHEN ma.expires_at IS NOT NULL AND ma.expires_at <= NOW() THEN 'expired'
+    ELSE 'in_effect'
+  END as ban_state,
+  COALESCE(array_length(ma.moderation_event_ids, 1), 0) as trigger_events,
+  (
+    SELECT ARRAY(
+      SELECT DISTINCT category
+      FROM moderation_events me, unnest(me.categories) as category
+      WHERE me.id = ANY(ma.moderation_event_ids)
+    )
+  ) as trigger_categories,
+  ma.reversed_at,
+  ma.reversed_by,
+  ma.reversal_reason,
+  ma.created_at
+FROM moderation_actions ma
+ORDER BY ma.created_at DESC;
+
+COMMENT ON VIEW moderation_actions_review IS 'Automatic moderation bans for admin review, with what triggered them and whether they are still in effect';